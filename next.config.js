@@ -1,11 +1,20 @@
+const fs = require('fs')
+const path = require('path')
+
+// Written by `npm run seed:events` when Supabase isn't configured; the memory
+// store loads it in place of the fixtures (see getRepository)
+const seedDataset = path.join(__dirname, 'data/seed.json')
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
-  experimental: {
-    serverComponentsExternalPackages: ['@supabase/supabase-js'],
-  },
   images: {
     domains: ['images.unsplash.com', 'via.placeholder.com'],
   },
+  webpack: (config) => {
+    // An empty module when there is no seeded dataset
+    config.resolve.alias['@seed-dataset'] = fs.existsSync(seedDataset) ? seedDataset : false
+    return config
+  },
 }
 
-module.exports = nextConfig
\ No newline at end of file
+module.exports = nextConfig
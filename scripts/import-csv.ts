@@ -0,0 +1,50 @@
+/**
+ * Import events from a CSV file
+ *
+ *   npm run import:csv -- events.csv            # report only
+ *   npm run import:csv -- events.csv --commit   # write accepted rows
+ *
+ * Columns: title, venue_name, type, date (required); location (required
+ * when the venue is new); time, price, description, ticket_url,
+ * venue_address, venue_lat, venue_long (optional).
+ * Against the memory store the commit only lasts for this process.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { commitEventImport, previewCsvImport } from '../src/lib/import/eventImport';
+import { createImportRepository, formatImportReport } from './importCli';
+import { loadEnv } from './seedCli';
+
+async function main() {
+  loadEnv();
+
+  const { values, positionals } = parseArgs({
+    args: process.argv.slice(2),
+    allowPositionals: true,
+    options: { commit: { type: 'boolean' } }
+  });
+
+  const [file] = positionals;
+  if (!file) {
+    console.log('Usage: npm run import:csv -- <file.csv> [--commit]');
+    process.exit(1);
+  }
+
+  const { source, repository } = createImportRepository();
+  const report = await previewCsvImport(repository, await readFile(file, 'utf8'));
+  console.log(formatImportReport(report));
+
+  if (!values.commit) {
+    console.log('Dry run – pass --commit to write the accepted rows.');
+    return;
+  }
+
+  const created = await commitEventImport(repository, report);
+  console.log(`Wrote ${created.events} events and ${created.venues} venues to ${source}.`);
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
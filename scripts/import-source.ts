@@ -0,0 +1,114 @@
+/**
+ * Ingest a provider payload through its source adapter
+ *
+ *   npm run import:source -- --source eventbrite feed.json            # report only
+ *   npm run import:source -- --source jsonld page.html --commit       # write accepted rows
+ *   npm run import:source -- --fixtures                               # check the CSV import and adapters against bundled payloads
+ *
+ * `npm run check:imports` (and so `npm test`) runs the fixture check and
+ * exits non-zero on any mismatch.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { commitEventImport, previewCsvImport, type ImportReport } from '../src/lib/import/eventImport';
+import { getSourceAdapter, SOURCE_ADAPTERS } from '../src/lib/import/adapters';
+import { ingestSourcePayload } from '../src/lib/import/sources';
+import { createMemoryRepository } from '../src/lib/data/memoryRepository';
+import { createFixtureDataset } from '../src/lib/data/fixtures';
+import { createImportRepository, formatImportReport } from './importCli';
+import { loadEnv } from './seedCli';
+
+const FIXTURE_DIR = join('src', 'lib', 'import', 'fixtures');
+
+// What each bundled payload must produce against the memory fixtures;
+// `csv` goes through the CSV importer, every other source through its adapter
+const FIXTURES: Array<{ source: string; file: string; expect: ImportReport['summary'] }> = [
+  {
+    source: 'csv',
+    file: 'events.csv',
+    expect: { total: 7, accepted: 3, rejected: 3, duplicate: 1, newVenues: ['Kosmos Theater'] }
+  },
+  {
+    source: 'eventbrite',
+    file: 'eventbrite-vienna.json',
+    expect: { total: 6, accepted: 3, rejected: 2, duplicate: 1, newVenues: ['Kosmos Theater'] }
+  },
+  {
+    source: 'jsonld',
+    file: 'schema-org-events.html',
+    expect: { total: 4, accepted: 3, rejected: 1, duplicate: 0, newVenues: [] }
+  }
+];
+
+async function checkFixtures() {
+  let failures = 0;
+
+  for (const { source, file, expect } of FIXTURES) {
+    const adapter = source === 'csv' ? undefined : getSourceAdapter(source);
+    if (source !== 'csv' && !adapter) throw new Error(`No adapter registered for "${source}"`);
+
+    const repository = createMemoryRepository(createFixtureDataset());
+    const payload = await readFile(join(FIXTURE_DIR, file), 'utf8');
+    const report = adapter
+      ? await ingestSourcePayload(repository, adapter, payload)
+      : await previewCsvImport(repository, payload);
+    const matches = JSON.stringify(report.summary) === JSON.stringify(expect);
+
+    const label = adapter ? adapter.label : 'CSV';
+    console.log(`${matches ? 'PASS' : 'FAIL'} ${label} (${file})\n${formatImportReport(report, adapter ? '#' : undefined)}\n`);
+    if (!matches) {
+      console.log(`  expected ${JSON.stringify(expect)}\n  got      ${JSON.stringify(report.summary)}\n`);
+      failures++;
+    }
+  }
+
+  if (failures > 0) {
+    throw new Error(`${failures} fixture ${failures === 1 ? 'check' : 'checks'} failed`);
+  }
+}
+
+async function main() {
+  loadEnv();
+
+  const { values, positionals } = parseArgs({
+    args: process.argv.slice(2),
+    allowPositionals: true,
+    options: {
+      source: { type: 'string' },
+      commit: { type: 'boolean' },
+      fixtures: { type: 'boolean' }
+    }
+  });
+
+  if (values.fixtures) {
+    await checkFixtures();
+    return;
+  }
+
+  const adapter = values.source ? getSourceAdapter(values.source) : undefined;
+  const [file] = positionals;
+  if (!adapter || !file) {
+    const sources = SOURCE_ADAPTERS.map(({ source }) => source).join(' | ');
+    console.log(`Usage: npm run import:source -- --source <${sources}> <file> [--commit]`);
+    process.exit(1);
+  }
+
+  const { source, repository } = createImportRepository();
+  const report = await ingestSourcePayload(repository, adapter, await readFile(file, 'utf8'));
+  console.log(formatImportReport(report, '#'));
+
+  if (!values.commit) {
+    console.log('Dry run – pass --commit to write the accepted rows.');
+    return;
+  }
+
+  const created = await commitEventImport(repository, report);
+  console.log(`Wrote ${created.events} events and ${created.venues} venues to ${source}.`);
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
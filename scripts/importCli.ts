@@ -0,0 +1,47 @@
+/**
+ * Shared store setup and report printing for the import scripts
+ */
+
+import { createFixtureDataset } from '../src/lib/data/fixtures';
+import { createMemoryRepository } from '../src/lib/data/memoryRepository';
+import { resolveDataSource, type DataSource, type Repository } from '../src/lib/data/repository';
+import { createSupabaseRepository } from '../src/lib/data/supabaseRepository';
+import type { ImportReport, ImportRowResult } from '../src/lib/import/eventImport';
+import { createAdminClient } from './seedCli';
+
+const STATUS_LABELS: Record<ImportRowResult['status'], string> = {
+  accepted: 'ok  ',
+  rejected: 'FAIL',
+  duplicate: 'dup '
+};
+
+/**
+ * Supabase (service role) when configured, otherwise the fixture-backed
+ * memory store, where a commit only lasts for the process
+ */
+export function createImportRepository(): { source: DataSource; repository: Repository } {
+  const source = resolveDataSource();
+  return {
+    source,
+    repository: source === 'supabase'
+      ? createSupabaseRepository(createAdminClient())
+      : createMemoryRepository(createFixtureDataset())
+  };
+}
+
+function formatRow(row: ImportRowResult, label: string) {
+  const detail = row.errors.length > 0 ? ` – ${row.errors.join('; ')}` : '';
+  const venue = row.newVenue ? ` (new venue: ${row.newVenue.name})` : '';
+  return `  ${STATUS_LABELS[row.status]} ${label} ${String(row.line).padStart(4)}  ${row.title ?? '(no title)'}${venue}${detail}`;
+}
+
+export function formatImportReport(report: ImportReport, label = 'line'): string {
+  const { total, accepted, rejected, duplicate, newVenues } = report.summary;
+
+  return [
+    ...report.rows.map(row => formatRow(row, label)),
+    '',
+    `${total} rows: ${accepted} accepted, ${rejected} rejected, ${duplicate} duplicate`,
+    ...(newVenues.length > 0 ? [`New venues: ${newVenues.join(', ')}`] : [])
+  ].join('\n');
+}
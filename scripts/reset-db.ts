@@ -0,0 +1,66 @@
+/**
+ * Wipe the data store and seed it again
+ *
+ *   npm run seed:reset
+ *   npm run seed:reset -- --seed 7 --count 300
+ *
+ * Takes the same flags as seed.ts. Seeded guest users are removed along with
+ * the content tables; real accounts are left alone.
+ */
+
+import { rm } from 'node:fs/promises';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { TableName } from '../src/lib/data/repository';
+import { createAdminClient, formatSummary, loadEnv, parseSeedCommand, runSeed, USAGE } from './seedCli';
+
+// Children before parents so foreign keys never block a delete
+const CONTENT_TABLES: TableName[] = ['reviews', 'events', 'venues', 'event_types', 'locations'];
+
+function isLocal(url: string) {
+  return /^https?:\/\/(localhost|127\.0\.0\.1)(:\d+)?/.test(url);
+}
+
+async function wipeSupabase(client: SupabaseClient) {
+  for (const table of CONTENT_TABLES) {
+    const { error } = await client.from(table).delete().not('id', 'is', null);
+    if (error) {
+      throw new Error(`Supabase ${table}.delete failed: ${error.message}`);
+    }
+  }
+
+  const { error } = await client.from('users').delete().like('email', 'guest%@example.com');
+  if (error) {
+    throw new Error(`Supabase users.delete failed: ${error.message}`);
+  }
+}
+
+async function main() {
+  loadEnv();
+
+  const command = parseSeedCommand(process.argv.slice(2));
+  if (!command) {
+    console.log(`Usage: npm run seed:reset -- [options]\n\n${USAGE}`);
+    return;
+  }
+
+  const { target, out, confirmed } = command;
+
+  if (target === 'supabase') {
+    const url = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+    if (!isLocal(url) && !confirmed) {
+      throw new Error(`Refusing to wipe ${url} without --yes`);
+    }
+    console.log(`Wiping ${url}…`);
+    await wipeSupabase(createAdminClient());
+  } else if (target === 'json') {
+    await rm(out, { force: true });
+  }
+
+  const summary = await runSeed(command);
+  console.log(`Reseeded ${target}:\n${formatSummary(summary)}`);
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,33 @@
+/**
+ * Fill a data store with generated Vienna events
+ *
+ *   npm run seed:events
+ *   npm run seed:events -- --count 300 --seed 7 --from 2025-01-01 --to 2025-12-31
+ *   npm run seed:events -- --target json --out data/seed.json
+ *
+ * Without Supabase the data lands in data/seed.json, which the dev server's
+ * memory store serves instead of the fixtures once it restarts.
+ */
+
+import { formatSummary, loadEnv, parseSeedCommand, runSeed, USAGE } from './seedCli';
+
+async function main() {
+  loadEnv();
+
+  const command = parseSeedCommand(process.argv.slice(2));
+  if (!command) {
+    console.log(`Usage: npm run seed:events -- [options]\n\n${USAGE}`);
+    return;
+  }
+
+  const { options, target, out } = command;
+  console.log(`Seeding ${target}${target === 'json' ? ` (${out})` : ''}: seed ${options.seed}, ${options.from} – ${options.to}`);
+
+  const summary = await runSeed(command);
+  console.log(`${formatSummary(summary)}\nDone.`);
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
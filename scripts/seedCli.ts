@@ -0,0 +1,166 @@
+/**
+ * Shared flag parsing and store setup for seed.ts and reset-db.ts
+ */
+
+import { existsSync } from 'node:fs';
+import { mkdir, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { loadEnvFile } from 'node:process';
+import { parseArgs } from 'node:util';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { addDays, addMonths, format, isValid, parseISO } from 'date-fns';
+import { resolveDataSource, type Dataset } from '../src/lib/data/repository';
+import { createMemoryRepository } from '../src/lib/data/memoryRepository';
+import { createSupabaseRepository } from '../src/lib/data/supabaseRepository';
+import {
+  defaultSeedOptions,
+  generateSeedData,
+  summarizeSeedData,
+  toSeedDataset,
+  writeSeedData,
+  type SeedOptions,
+  type SeedSummary
+} from '../src/lib/data/seed';
+
+export type SeedTarget = 'supabase' | 'json' | 'memory';
+
+export interface SeedCommand {
+  options: SeedOptions;
+  target: SeedTarget;
+  out: string;
+  confirmed: boolean; // --yes, needed to wipe a remote database
+}
+
+export const USAGE = `Options:
+  --count <n>        events to generate (default 120)
+  --users <n>        guest users who write reviews (default 12)
+  --seed <n>         random seed; same seed + range = same data (default 1)
+  --from <date>      first event date, YYYY-MM-DD (default two months ago)
+  --to <date>        last event date, YYYY-MM-DD (default twelve months after --from)
+  --target <store>   supabase | json | memory (default: supabase when it is the
+                     data source, else json); memory is a dry run
+  --out <file>       JSON file for --target json (default data/seed.json, which
+                     the dev server's memory store loads after a restart)
+  --yes              reset-db only: allow wiping a non-local Supabase project
+  --help             show this message`;
+
+// Same precedence as Next.js: .env.local wins over .env, the shell over both
+export function loadEnv() {
+  for (const file of ['.env.local', '.env']) {
+    if (existsSync(file)) loadEnvFile(file);
+  }
+}
+
+function toInteger(flag: string, value: string | undefined, fallback: number): number {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`--${flag} expects a non-negative integer, got "${value}"`);
+  }
+  return parsed;
+}
+
+function toDate(flag: string, value: string | undefined): string | undefined {
+  if (value !== undefined && (!/^\d{4}-\d{2}-\d{2}$/.test(value) || !isValid(parseISO(value)))) {
+    throw new Error(`--${flag} expects YYYY-MM-DD, got "${value}"`);
+  }
+  return value;
+}
+
+export function parseSeedCommand(argv: string[]): SeedCommand | null {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      count: { type: 'string' },
+      users: { type: 'string' },
+      seed: { type: 'string' },
+      from: { type: 'string' },
+      to: { type: 'string' },
+      target: { type: 'string' },
+      out: { type: 'string' },
+      yes: { type: 'boolean' },
+      help: { type: 'boolean' }
+    }
+  });
+
+  if (values.help) return null;
+
+  // The memory data source reads the JSON file, so that is where its seed goes
+  const target = values.target ?? (values.out || resolveDataSource() === 'memory' ? 'json' : 'supabase');
+  if (target !== 'supabase' && target !== 'json' && target !== 'memory') {
+    throw new Error(`--target must be supabase, json or memory, got "${target}"`);
+  }
+
+  const defaults = defaultSeedOptions();
+  const from = toDate('from', values.from) ?? defaults.from;
+  // A custom start keeps the default twelve-month span
+  const to = toDate('to', values.to)
+    ?? (values.from ? format(addDays(addMonths(parseISO(from), 12), -1), 'yyyy-MM-dd') : defaults.to);
+
+  return {
+    target,
+    out: values.out ?? 'data/seed.json',
+    confirmed: values.yes ?? false,
+    options: {
+      ...defaults,
+      seed: toInteger('seed', values.seed, defaults.seed),
+      eventCount: toInteger('count', values.count, defaults.eventCount),
+      userCount: toInteger('users', values.users, defaults.userCount),
+      from,
+      to
+    }
+  };
+}
+
+/**
+ * Service-role client: seeding writes past row level security, which the
+ * anon key can't, so there is no falling back to it
+ */
+export function createAdminClient(): SupabaseClient {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !key) {
+    throw new Error(
+      'NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set to seed Supabase ' +
+      '(or pass --target json to seed the local memory store)'
+    );
+  }
+
+  return createClient(url, key, { auth: { persistSession: false } });
+}
+
+const emptyDataset: Dataset = {
+  locations: [],
+  event_types: [],
+  venues: [],
+  events: [],
+  reviews: [],
+  users: []
+};
+
+/**
+ * Generate and write; the memory target is a dry run that exercises the
+ * same inserts without persisting anything
+ */
+export async function runSeed({ options, target, out }: SeedCommand): Promise<SeedSummary> {
+  const data = generateSeedData(options);
+
+  if (target === 'json') {
+    // Pinned timestamp keeps the file identical across runs
+    const dataset = toSeedDataset(data, `${options.from}T00:00:00.000Z`);
+    await mkdir(dirname(out), { recursive: true });
+    await writeFile(out, `${JSON.stringify(dataset, null, 2)}\n`);
+    return summarizeSeedData(data);
+  }
+
+  const repository = target === 'supabase'
+    ? createSupabaseRepository(createAdminClient())
+    : createMemoryRepository(emptyDataset);
+  return writeSeedData(repository, data);
+}
+
+export function formatSummary(summary: SeedSummary): string {
+  return Object.entries(summary)
+    .map(([table, count]) => `  ${table.padEnd(12)} ${count}`)
+    .join('\n');
+}
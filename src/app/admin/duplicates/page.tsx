@@ -0,0 +1,11 @@
+import type { Metadata } from 'next'
+import { DuplicateReview } from '@/components/ui/DuplicateReview'
+
+export const metadata: Metadata = {
+  title: 'Duplicate events · Admin',
+  robots: { index: false, follow: false },
+}
+
+export default function DuplicatesAdminPage() {
+  return <DuplicateReview />
+}
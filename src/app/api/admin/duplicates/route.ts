@@ -0,0 +1,54 @@
+import type { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { getRepository } from '@/lib/data/repository';
+import { findDuplicateClusters, mergeEvents, splitEvents } from '@/lib/data/dedup';
+import { checkAdmin } from '@/lib/api/admin';
+import { apiError, withApiErrors } from '@/lib/api/response';
+
+const actionSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('merge'),
+    eventIds: z.array(z.string().min(1)).min(2),
+    canonicalId: z.string().min(1)
+  }),
+  z.object({
+    action: z.literal('split'),
+    eventIds: z.array(z.string().min(1)).min(2)
+  })
+]);
+
+// GET /api/admin/duplicates – candidate clusters and existing merges
+export async function GET(request: NextRequest) {
+  const denied = checkAdmin(request);
+  if (denied) return denied;
+
+  return withApiErrors('admin/duplicates', async () =>
+    findDuplicateClusters(await getRepository().events.list({ includeMerged: true }))
+  );
+}
+
+// POST /api/admin/duplicates { action: 'merge', eventIds, canonicalId } | { action: 'split', eventIds }
+export async function POST(request: NextRequest) {
+  const denied = checkAdmin(request);
+  if (denied) return denied;
+
+  const parsed = actionSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return apiError(parsed.error.issues[0]?.message || 'Invalid request body', 400, 'invalid_body');
+  }
+
+  const body = parsed.data;
+  if (body.action === 'merge' && !body.eventIds.includes(body.canonicalId)) {
+    return apiError('canonicalId must be one of eventIds', 400, 'invalid_body');
+  }
+
+  return withApiErrors('admin/duplicates', async () => {
+    const repository = getRepository();
+    if (body.action === 'merge') {
+      await mergeEvents(repository, body.eventIds, body.canonicalId);
+    } else {
+      await splitEvents(repository, body.eventIds);
+    }
+    return findDuplicateClusters(await repository.events.list({ includeMerged: true }));
+  });
+}
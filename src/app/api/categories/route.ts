@@ -0,0 +1,10 @@
+import type { NextRequest } from 'next/server';
+import { getRepository } from '@/lib/data/repository';
+import { facetFiltersFromParams, getCategoryFacets } from '@/lib/data/facets';
+import { withApiErrors } from '@/lib/api/response';
+
+// GET /api/categories?location={id}&month={YYYY-MM}
+export async function GET(request: NextRequest) {
+  const filters = facetFiltersFromParams(request.nextUrl.searchParams);
+  return withApiErrors('categories', () => getCategoryFacets(getRepository(), filters));
+}
@@ -0,0 +1,53 @@
+import type { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { getRepository } from '@/lib/data/repository';
+import { eventFiltersFromParams, eventListingSortOf } from '@/lib/data/eventFilters';
+import { decodeCursor, eventPageOrder, getEventPage } from '@/lib/data/eventPages';
+import { apiError, withApiErrors } from '@/lib/api/response';
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD');
+
+const DEFAULT_PAGE_SIZE = 50;
+
+const paramsSchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  lat: z.coerce.number().min(-90).max(90).optional(),
+  lng: z.coerce.number().min(-180).max(180).optional(),
+  radius: z.coerce.number().positive().max(100).optional(),
+  sort: z.string().refine(sort => eventListingSortOf(sort) !== undefined, 'Unknown sort').optional(),
+  from: isoDate.optional(),
+  to: isoDate.optional(),
+  cursor: z.string().max(1000).optional(),
+  limit: z.coerce.number().int().positive().max(500).default(DEFAULT_PAGE_SIZE)
+}).refine(params => (params.lat === undefined) === (params.lng === undefined), {
+  message: 'lat and lng go together'
+}).refine(params => params.lat !== undefined || (params.radius === undefined && eventListingSortOf(params.sort ?? null) !== 'nearest'), {
+  message: 'radius and sort=nearest need lat and lng'
+});
+
+// GET /api/events?q&location={ids}&type={ids}&month={YYYY-MM,...}&price={bands}&price_min&price_max
+//   &from&to&lat&lng&radius={km}&sort={EVENT_SORTS id}&limit&cursor
+// Facets take comma-separated ids. Pages come soonest first, or best match first with q,
+// unless sorted otherwise, and from today on without `from`; pass back `nextCursor` for
+// the page after. The first page also carries `total` and the facet counts.
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const parsed = paramsSchema.safeParse(
+    Object.fromEntries(Array.from(searchParams.entries()).filter(([, value]) => value !== ''))
+  );
+  if (!parsed.success) {
+    return apiError(parsed.error.issues[0]?.message || 'Invalid query', 400, 'invalid_params');
+  }
+
+  const { from, to, limit } = parsed.data;
+  const filters = eventFiltersFromParams(searchParams);
+  const cursor = parsed.data.cursor === undefined ? undefined : decodeCursor(parsed.data.cursor);
+  // A cursor only means something in the order that produced it
+  if (cursor === null || (cursor && cursor.order !== eventPageOrder(filters))) {
+    return apiError('Invalid cursor for this query', 400, 'invalid_params');
+  }
+
+  return withApiErrors('events', () =>
+    getEventPage(getRepository(), { filters, from, to, cursor, limit })
+  );
+}
@@ -0,0 +1,10 @@
+import type { NextRequest } from 'next/server';
+import { getRepository } from '@/lib/data/repository';
+import { facetFiltersFromParams, getLocationFacets } from '@/lib/data/facets';
+import { withApiErrors } from '@/lib/api/response';
+
+// GET /api/locations?category={id}&month={YYYY-MM}
+export async function GET(request: NextRequest) {
+  const filters = facetFiltersFromParams(request.nextUrl.searchParams);
+  return withApiErrors('locations', () => getLocationFacets(getRepository(), filters));
+}
@@ -0,0 +1,10 @@
+import type { NextRequest } from 'next/server';
+import { getRepository } from '@/lib/data/repository';
+import { facetFiltersFromParams, getMonthFacets } from '@/lib/data/facets';
+import { withApiErrors } from '@/lib/api/response';
+
+// GET /api/months?location={id}&category={id}
+export async function GET(request: NextRequest) {
+  const filters = facetFiltersFromParams(request.nextUrl.searchParams);
+  return withApiErrors('months', () => getMonthFacets(getRepository(), filters));
+}
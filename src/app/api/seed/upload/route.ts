@@ -0,0 +1,47 @@
+import type { NextRequest } from 'next/server';
+import { getRepository } from '@/lib/data/repository';
+import { parseCsv } from '@/lib/import/csv';
+import { commitEventImport, missingImportColumns, previewEventImport } from '@/lib/import/eventImport';
+import { checkAdmin } from '@/lib/api/admin';
+import { apiError, withApiErrors } from '@/lib/api/response';
+
+const MAX_UPLOAD_BYTES = 2 * 1024 * 1024;
+
+// The CSV comes either as the `file` field of a form or as the raw body
+async function readCsv(request: NextRequest): Promise<string | null> {
+  if (request.headers.get('content-type')?.includes('multipart/form-data')) {
+    const file = (await request.formData()).get('file');
+    return file instanceof Blob ? file.text() : null;
+  }
+  return request.text();
+}
+
+// POST /api/seed/upload?commit=true – without commit it only reports
+export async function POST(request: NextRequest) {
+  const denied = checkAdmin(request);
+  if (denied) return denied;
+
+  if (Number(request.headers.get('content-length') || 0) > MAX_UPLOAD_BYTES) {
+    return apiError('CSV is larger than 2 MB', 413, 'too_large');
+  }
+
+  const text = await readCsv(request);
+  if (!text?.trim()) {
+    return apiError('Send a CSV as the "file" form field or as the request body', 400, 'missing_csv');
+  }
+
+  const { headers, records } = parseCsv(text);
+  const missing = missingImportColumns(headers);
+  if (missing.length > 0) {
+    return apiError(`CSV is missing required columns: ${missing.join(', ')}`, 400, 'invalid_csv');
+  }
+
+  const commit = request.nextUrl.searchParams.get('commit') === 'true';
+
+  return withApiErrors('seed/upload', async () => {
+    const repository = getRepository();
+    const report = await previewEventImport(repository, records, 'csv');
+    const created = commit ? await commitEventImport(repository, report) : null;
+    return { ...report, committed: commit, created };
+  });
+}
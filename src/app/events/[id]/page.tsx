@@ -0,0 +1,234 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { headers } from 'next/headers'
+import { notFound, redirect } from 'next/navigation'
+import { getRepository } from '@/lib/data/repository'
+import { formatRunDates, performancesOf } from '@/lib/data/performances'
+import type { EventWithDetails } from '@/lib/types'
+import { formatDate, formatTime, pickDateLocale, todayIn, type DateLocale } from '@/lib/utils/dates'
+import { absoluteUrl, eventJsonLd } from '@/lib/seo/structuredData'
+import { withAffiliateTag } from '@/lib/utils/affiliate'
+import { JsonLd } from '@/components/ui/JsonLd'
+import { VenueMiniMap } from '@/components/ui/VenueMiniMap'
+
+interface EventPageProps {
+  params: { id: string }
+  searchParams: { date?: string | string[] } // a run's performance, YYYY-MM-DD
+}
+
+function describe(event: EventWithDetails, locale: DateLocale) {
+  const when = formatRunDates(event, locale)
+  return event.description || `${event.event_types.name} at ${event.venues.name}, ${when}.`
+}
+
+function hostOf(url: string) {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '')
+  } catch {
+    return url
+  }
+}
+
+export async function generateMetadata({ params }: EventPageProps): Promise<Metadata> {
+  const event = await getRepository().events.get(params.id)
+  if (!event) {
+    return { title: 'Event not found' }
+  }
+
+  const title = `${event.title} · ${event.venues.name}`
+  const description = describe(event, pickDateLocale(headers().get('accept-language')))
+  const url = absoluteUrl(`/events/${event.id}`)
+
+  return {
+    title,
+    description,
+    alternates: { canonical: url },
+    openGraph: {
+      type: 'website',
+      url,
+      title,
+      description,
+      siteName: 'Cultural Events Platform',
+    },
+    twitter: {
+      card: 'summary',
+      title,
+      description,
+    },
+  }
+}
+
+export default async function EventPage({ params, searchParams }: EventPageProps) {
+  const event = await getRepository().events.get(params.id)
+  if (!event) {
+    notFound()
+  }
+  // Duplicates merged from other sources live on under the canonical event
+  if (event.merged_into) {
+    redirect(`/events/${event.merged_into}`)
+  }
+
+  const venue = event.venues
+  const locale = pickDateLocale(headers().get('accept-language'))
+  const today = todayIn()
+  const performances = performancesOf(event)
+  const isRun = performances.length > 1
+  const upcoming = performances.filter(performance => performance.date >= today)
+
+  // The picked date (matinee and evening share one), else the next performance
+  const picked = performances.filter(performance => performance.date === searchParams.date)
+  const shown = picked.length > 0 ? picked : [upcoming[0] ?? performances[performances.length - 1]]
+  const times = shown
+    .flatMap(performance => (performance.time ? [formatTime(performance.time, locale)] : []))
+    .join(' and ')
+  const ticketUrl = event.ticket_url ? withAffiliateTag(event.ticket_url) : undefined
+  const otherTicketLinks = (event.ticket_links || []).filter(link => link.url !== event.ticket_url)
+
+  return (
+    <main className="min-h-screen bg-white">
+      <JsonLd data={eventJsonLd(event)} />
+
+      <article className="max-w-4xl mx-auto px-4 py-12">
+        <Link href="/events" className="text-sm text-gray-600 hover:text-gray-900">
+          ← All events
+        </Link>
+
+        <header className="mt-8 mb-10">
+          <p className="text-sm uppercase tracking-wide text-gray-500 mb-3">
+            {event.event_types.name} · {event.locations.name}
+          </p>
+          <h1 className="text-4xl md:text-5xl text-gray-900 mb-4 tracking-tight font-serif">
+            {event.title}
+          </h1>
+          <p className="text-lg text-gray-700">
+            <Link href={`/venues/${venue.slug}`} className="hover:text-gray-900 hover:underline underline-offset-4">
+              {venue.name}
+            </Link>
+          </p>
+        </header>
+
+        <div className="grid md:grid-cols-3 gap-10">
+          <div className="md:col-span-2 space-y-8">
+            <dl className="grid grid-cols-2 gap-6">
+              <div>
+                <dt className="text-sm text-gray-500">
+                  {isRun && picked.length === 0 && upcoming.length > 0 ? 'Next performance' : 'Date'}
+                </dt>
+                <dd className="text-gray-900">
+                  <time dateTime={shown[0].date}>{formatDate(shown[0].date, 'full', locale)}</time>
+                </dd>
+              </div>
+              {times && (
+                <div>
+                  <dt className="text-sm text-gray-500">Time</dt>
+                  <dd className="text-gray-900">{times}</dd>
+                </div>
+              )}
+              <div>
+                <dt className="text-sm text-gray-500">Price</dt>
+                <dd className="text-gray-900">
+                  {event.price !== undefined ? `From €${event.price}` : 'See venue'}
+                </dd>
+              </div>
+              {venue.address && (
+                <div>
+                  <dt className="text-sm text-gray-500">Address</dt>
+                  <dd className="text-gray-900">{venue.address}</dd>
+                </div>
+              )}
+            </dl>
+
+            {isRun && (
+              <section aria-labelledby="performances-heading">
+                <h2 id="performances-heading" className="text-sm text-gray-500 mb-3">
+                  {formatRunDates(event, locale)}
+                </h2>
+                {upcoming.length > 0 ? (
+                  <ul className="flex flex-wrap gap-2">
+                    {upcoming.map(performance => {
+                      const isPicked = performance.date === shown[0].date
+                      return (
+                        <li key={`${performance.date}-${performance.time}`}>
+                          <Link
+                            href={`/events/${event.id}?date=${performance.date}`}
+                            scroll={false}
+                            aria-current={isPicked ? 'date' : undefined}
+                            className={`block px-3 py-1.5 border rounded-sm text-sm transition-colors ${
+                              isPicked ? 'border-gray-900 bg-gray-900 text-white' : 'border-gray-300 text-gray-700 hover:border-gray-900'
+                            }`}
+                          >
+                            {formatDate(performance.date, 'short', locale)}
+                            {performance.time && (
+                              <span className={isPicked ? 'text-gray-300' : 'text-gray-500'}> · {formatTime(performance.time, locale)}</span>
+                            )}
+                          </Link>
+                        </li>
+                      )
+                    })}
+                  </ul>
+                ) : (
+                  <p className="text-gray-600">This run has ended.</p>
+                )}
+              </section>
+            )}
+
+            {event.description && (
+              <p className="text-gray-700 leading-relaxed">{event.description}</p>
+            )}
+
+            {ticketUrl && (
+              <a
+                href={ticketUrl}
+                target="_blank"
+                rel="sponsored noopener noreferrer"
+                className="inline-block bg-black text-white py-3 px-6 rounded-sm hover:bg-gray-800 transition-colors"
+              >
+                Get tickets
+              </a>
+            )}
+
+            {otherTicketLinks.length > 0 && (
+              <p className="text-sm text-gray-600">
+                Also available via{' '}
+                {otherTicketLinks.map((link, index) => (
+                  <span key={link.url}>
+                    {index > 0 && ', '}
+                    <a
+                      href={withAffiliateTag(link.url)}
+                      target="_blank"
+                      rel="sponsored noopener noreferrer"
+                      className="underline decoration-dotted underline-offset-2 hover:text-gray-900"
+                    >
+                      {hostOf(link.url)}
+                    </a>
+                  </span>
+                ))}
+              </p>
+            )}
+          </div>
+
+          <aside className="space-y-4">
+            {venue.lat !== undefined && venue.long !== undefined && (
+              <VenueMiniMap lat={venue.lat} long={venue.long} label={venue.name} />
+            )}
+            <div className="text-sm text-gray-600 space-y-1">
+              <p>
+                <Link href={`/venues/${venue.slug}`} className="text-gray-900 hover:underline underline-offset-2">
+                  {venue.name}
+                </Link>
+              </p>
+              {venue.address && <p>{venue.address}</p>}
+              {venue.website && (
+                <p>
+                  <a href={venue.website} target="_blank" rel="noopener noreferrer" className="underline decoration-dotted underline-offset-2 hover:text-gray-900">
+                    Venue website
+                  </a>
+                </p>
+              )}
+            </div>
+          </aside>
+        </div>
+      </article>
+    </main>
+  )
+}
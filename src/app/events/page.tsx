@@ -1,5 +1,12 @@
+import { Suspense } from 'react'
 import { EventGrid } from '@/components/ui/EventGrid'
+import { PageLoadingSpinner } from '@/components/ui/LoadingSpinner'
 
 export default function EventsPage() {
-  return <EventGrid />
-}
\ No newline at end of file
+  // EventGrid reads its filters from the URL, which needs a Suspense boundary for static rendering
+  return (
+    <Suspense fallback={<PageLoadingSpinner />}>
+      <EventGrid />
+    </Suspense>
+  )
+}
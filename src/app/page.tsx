@@ -1,5 +1,13 @@
 import { LocationCloud } from '@/components/ui/LocationCloud'
+import { NaturalQueryInput } from '@/components/ui/NaturalQueryInput'
 
 export default function HomePage() {
-  return <LocationCloud />
-}
\ No newline at end of file
+  return (
+    <div className="relative">
+      <LocationCloud />
+      <div className="absolute inset-x-0 bottom-12 flex justify-center px-4">
+        <NaturalQueryInput />
+      </div>
+    </div>
+  )
+}
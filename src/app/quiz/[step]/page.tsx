@@ -0,0 +1,25 @@
+import { notFound, redirect } from 'next/navigation';
+import { QuizStep } from '../../../components/ui/QuizStep';
+import { QUIZ_STEPS, getQuizStep, getQuizStepHref } from '../../../lib/quiz/steps';
+
+interface QuizStepPageProps {
+  params: { step: string };
+}
+
+export function generateStaticParams() {
+  return QUIZ_STEPS.map(step => ({ step: step.id }));
+}
+
+export default function QuizStepPage({ params }: QuizStepPageProps) {
+  // Old /quiz/step1, /quiz/step2 ... links land on the step now in that position
+  const legacyStep = /^step(\d+)$/.exec(params.step);
+  if (legacyStep) {
+    redirect(getQuizStepHref(Math.min(parseInt(legacyStep[1], 10), QUIZ_STEPS.length)));
+  }
+
+  if (!getQuizStep(params.step)) {
+    notFound();
+  }
+
+  return <QuizStep stepId={params.step} />;
+}
@@ -1,5 +1,6 @@
-import { QuizSteps } from '@/components/ui/QuizSteps'
+import { redirect } from 'next/navigation'
+import { getQuizStepHref } from '@/lib/quiz/steps'
 
 export default function QuizPage() {
-  return <QuizSteps />
-}
\ No newline at end of file
+  redirect(getQuizStepHref(1))
+}
@@ -0,0 +1,19 @@
+import { notFound } from 'next/navigation';
+import { TasteStep } from '../../../../components/ui/TasteStep';
+import { TASTE_STEPS, getTasteStep } from '../../../../lib/quiz/taste';
+
+interface TasteStepPageProps {
+  params: { step: string };
+}
+
+export function generateStaticParams() {
+  return TASTE_STEPS.map(step => ({ step: step.id }));
+}
+
+export default function TasteStepPage({ params }: TasteStepPageProps) {
+  if (!getTasteStep(params.step)) {
+    notFound();
+  }
+
+  return <TasteStep stepId={params.step} />;
+}
@@ -0,0 +1,6 @@
+import { redirect } from 'next/navigation'
+import { getTasteStepHref } from '@/lib/quiz/taste'
+
+export default function TasteQuizPage() {
+  redirect(getTasteStepHref(1))
+}
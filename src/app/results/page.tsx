@@ -0,0 +1,12 @@
+import { Suspense } from 'react'
+import { QuizResults } from '@/components/ui/QuizResults'
+import { PageLoadingSpinner } from '@/components/ui/LoadingSpinner'
+
+export default function ResultsPage() {
+  // useSearchParams in QuizResults needs a Suspense boundary for static rendering
+  return (
+    <Suspense fallback={<PageLoadingSpinner />}>
+      <QuizResults />
+    </Suspense>
+  )
+}
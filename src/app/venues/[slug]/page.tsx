@@ -0,0 +1,186 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { headers } from 'next/headers'
+import { notFound } from 'next/navigation'
+import { getRepository } from '@/lib/data/repository'
+import { formatRunDates, performancesOf } from '@/lib/data/performances'
+import { summarizeReviews, type ReviewSummary } from '@/lib/data/reviewStats'
+import { absoluteUrl, venueJsonLd } from '@/lib/seo/structuredData'
+import type { EventWithDetails } from '@/lib/types'
+import { pickDateLocale, todayIn, type DateLocale } from '@/lib/utils/dates'
+import { EventCard } from '@/components/ui/EventCard'
+import { JsonLd } from '@/components/ui/JsonLd'
+import { VenueMiniMap } from '@/components/ui/VenueMiniMap'
+
+interface VenuePageProps {
+  params: { slug: string }
+}
+
+// Past events shown below the programme
+const PAST_EVENT_LIMIT = 6
+
+async function loadVenue(slug: string) {
+  const repository = getRepository()
+  const venue = await repository.venues.getBySlug(slug)
+  if (!venue) return null
+
+  const [events, reviews, location] = await Promise.all([
+    repository.events.list({ venueId: venue.id }),
+    repository.reviews.listForVenue(venue.id),
+    repository.locations.get(venue.location_id)
+  ])
+
+  const today = todayIn()
+  return {
+    venue,
+    location,
+    // A run stays upcoming until its last performance
+    upcoming: events.filter(event => (event.end_date ?? event.date) >= today),
+    past: events.filter(event => (event.end_date ?? event.date) < today).reverse().slice(0, PAST_EVENT_LIMIT),
+    summary: summarizeReviews(reviews)
+  }
+}
+
+function ratingLine(summary: ReviewSummary) {
+  if (summary.avgRating === null) return 'No ratings yet'
+  return `${summary.avgRating.toFixed(1)} / 5 from ${summary.ratedReviews} ${summary.ratedReviews === 1 ? 'rating' : 'ratings'}`
+}
+
+export async function generateMetadata({ params }: VenuePageProps): Promise<Metadata> {
+  const data = await loadVenue(params.slug)
+  if (!data) {
+    return { title: 'Venue not found' }
+  }
+
+  const { venue, upcoming, summary } = data
+  const title = `${venue.name} · Vienna`
+  const description = `${upcoming.length} upcoming ${upcoming.length === 1 ? 'event' : 'events'} at ${venue.name}. ${ratingLine(summary)}.`
+  const url = absoluteUrl(`/venues/${venue.slug}`)
+
+  return {
+    title,
+    description,
+    alternates: { canonical: url },
+    openGraph: {
+      type: 'website',
+      url,
+      title,
+      description,
+      siteName: 'Cultural Events Platform',
+    },
+    twitter: {
+      card: 'summary',
+      title,
+      description,
+    },
+  }
+}
+
+function EventList({ events, emptyText, locale }: { events: EventWithDetails[]; emptyText: string; locale: DateLocale }) {
+  if (events.length === 0) {
+    return <p className="text-gray-600">{emptyText}</p>
+  }
+
+  return (
+    <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-8">
+      {events.map((event, index) => (
+        <EventCard
+          key={event.id}
+          title={event.title}
+          date={formatRunDates(event, locale)}
+          performances={performancesOf(event)}
+          locale={locale}
+          price={event.price}
+          href={`/events/${event.id}`}
+          delay={index * 0.1}
+        />
+      ))}
+    </div>
+  )
+}
+
+export default async function VenuePage({ params }: VenuePageProps) {
+  const data = await loadVenue(params.slug)
+  if (!data) {
+    notFound()
+  }
+
+  const { venue, location, upcoming, past, summary } = data
+  const locale = pickDateLocale(headers().get('accept-language'))
+
+  return (
+    <main className="min-h-screen bg-white">
+      <JsonLd data={venueJsonLd(venue, summary, upcoming)} />
+
+      <div className="max-w-7xl mx-auto px-4 py-12">
+        <Link href="/events" className="text-sm text-gray-600 hover:text-gray-900">
+          ← All events
+        </Link>
+
+        <header className="mt-8 mb-12 grid md:grid-cols-3 gap-10">
+          <div className="md:col-span-2">
+            {location && (
+              <p className="text-sm uppercase tracking-wide text-gray-500 mb-3">{location.name}</p>
+            )}
+            <h1 className="text-4xl md:text-5xl text-gray-900 mb-6 tracking-tight font-serif">
+              {venue.name}
+            </h1>
+
+            <dl className="grid grid-cols-2 gap-6 mb-6">
+              <div>
+                <dt className="text-sm text-gray-500">Rating</dt>
+                <dd className="text-gray-900">{ratingLine(summary)}</dd>
+              </div>
+              <div>
+                <dt className="text-sm text-gray-500">Would attend again</dt>
+                <dd className="text-gray-900">
+                  {summary.wouldAttendAgainPercent !== null
+                    ? `${summary.wouldAttendAgainPercent}% of ${summary.totalReviews} ${summary.totalReviews === 1 ? 'reviewer' : 'reviewers'}`
+                    : 'No reviews yet'}
+                </dd>
+              </div>
+              {venue.capacity !== undefined && (
+                <div>
+                  <dt className="text-sm text-gray-500">Capacity</dt>
+                  <dd className="text-gray-900">{venue.capacity.toLocaleString('en')} seats</dd>
+                </div>
+              )}
+            </dl>
+
+            <div className="text-sm text-gray-600 space-y-1">
+              {venue.address && <p>{venue.address}</p>}
+              {venue.phone && (
+                <p>
+                  <a href={`tel:${venue.phone.replace(/\s/g, '')}`} className="hover:text-gray-900">{venue.phone}</a>
+                </p>
+              )}
+              {venue.website && (
+                <p>
+                  <a href={venue.website} target="_blank" rel="noopener noreferrer" className="underline decoration-dotted underline-offset-2 hover:text-gray-900">
+                    {venue.website.replace(/^https?:\/\//, '')}
+                  </a>
+                </p>
+              )}
+            </div>
+          </div>
+
+          {venue.lat !== undefined && venue.long !== undefined && (
+            <VenueMiniMap lat={venue.lat} long={venue.long} label={venue.name} />
+          )}
+        </header>
+
+        <section className="mb-16">
+          <h2 className="text-2xl text-gray-900 mb-6 font-serif">Upcoming</h2>
+          <EventList events={upcoming} emptyText="Nothing scheduled right now." locale={locale} />
+        </section>
+
+        {past.length > 0 && (
+          <section>
+            <h2 className="text-2xl text-gray-900 mb-6 font-serif">Recently</h2>
+            <EventList events={past} emptyText="" locale={locale} />
+          </section>
+        )}
+      </div>
+    </main>
+  )
+}
@@ -57,6 +57,8 @@ export function FloatingFilter({
       onHoverStart={() => setIsHovered(true)}
       onHoverEnd={() => setIsHovered(false)}
       onClick={onClick}
+      type="button"
+      aria-pressed={isActive}
       className={`
         px-4 py-2 
         ${isActive ? 'bg-gray-900 text-white' : 'bg-white text-gray-700'} 
@@ -0,0 +1,204 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { fetchApi, postApi } from '@/lib/api/client'
+import type { DuplicateCluster } from '@/lib/data/dedup'
+import { formatDate } from '@/lib/utils/dates'
+
+const TOKEN_KEY = 'admin-token'
+const ENDPOINT = '/api/admin/duplicates'
+
+type ClusterAction = { action: 'merge'; eventIds: string[]; canonicalId: string } | { action: 'split'; eventIds: string[] }
+
+/**
+ * Admin review of cross-source duplicates: merge candidates into one
+ * canonical event, or split merges (and dismiss candidates) apart
+ */
+export function DuplicateReview() {
+  const [tokenInput, setTokenInput] = useState('')
+  const [token, setToken] = useState<string | null>(null) // null until read from sessionStorage
+  const [clusters, setClusters] = useState<DuplicateCluster[] | null>(null)
+  const [canonical, setCanonical] = useState<Record<string, string>>({})
+  const [busyKey, setBusyKey] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const authInit = useCallback(
+    (): RequestInit => (token ? { headers: { Authorization: `Bearer ${token}` } } : {}),
+    [token]
+  )
+
+  const load = useCallback(async () => {
+    setError(null)
+    try {
+      setClusters(await fetchApi<DuplicateCluster[]>(ENDPOINT, {}, authInit()))
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Could not load duplicates')
+    }
+  }, [authInit])
+
+  useEffect(() => {
+    const saved = sessionStorage.getItem(TOKEN_KEY) || ''
+    setTokenInput(saved)
+    setToken(saved)
+  }, [])
+
+  useEffect(() => {
+    if (token !== null) load()
+  }, [token, load])
+
+  const run = async (cluster: DuplicateCluster, action: ClusterAction) => {
+    setBusyKey(cluster.key)
+    setError(null)
+    try {
+      setClusters(await postApi<DuplicateCluster[]>(ENDPOINT, action, authInit()))
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : 'Action failed')
+    } finally {
+      setBusyKey(null)
+    }
+  }
+
+  const candidates = clusters?.filter(cluster => cluster.status === 'candidate') || []
+  const merges = clusters?.filter(cluster => cluster.status === 'merged') || []
+
+  const renderCluster = (cluster: DuplicateCluster) => {
+    const selected = canonical[cluster.key] || cluster.canonicalId
+    const eventIds = cluster.events.map(event => event.id)
+    const first = cluster.events[0]
+    const busy = busyKey === cluster.key
+
+    return (
+      <li key={cluster.key} className="border border-gray-200 rounded-sm p-6">
+        <div className="flex items-baseline justify-between gap-4 mb-4">
+          <p className="text-gray-900">
+            {first.venues.name} · {formatDate(first.date, 'medium')}
+          </p>
+          <span className="text-sm text-gray-500">{Math.round(cluster.score * 100)}% title match</span>
+        </div>
+
+        <fieldset disabled={busy || cluster.status === 'merged'}>
+          <legend className="sr-only">Canonical event</legend>
+          <ul className="space-y-2 mb-6">
+            {cluster.events.map(event => (
+              <li key={event.id}>
+                <label className="flex items-start gap-3 text-sm">
+                  <input
+                    type="radio"
+                    name={`canonical-${cluster.key}`}
+                    value={event.id}
+                    checked={selected === event.id}
+                    onChange={() => setCanonical(current => ({ ...current, [cluster.key]: event.id }))}
+                    className="mt-1"
+                  />
+                  <span>
+                    <span className="text-gray-900">{event.title}</span>
+                    <span className="ml-2 px-1.5 py-0.5 bg-gray-100 text-gray-600 rounded-sm text-xs">{event.source}</span>
+                    <span className="block text-gray-500">
+                      {event.time || 'no time'} · {event.price !== undefined ? `€${event.price}` : 'no price'}
+                      {event.ticket_url && <> · {event.ticket_url}</>}
+                      {' · '}
+                      <Link href={`/events/${event.id}`} className="underline underline-offset-2 hover:text-gray-900">
+                        {event.id}
+                      </Link>
+                    </span>
+                  </span>
+                </label>
+              </li>
+            ))}
+          </ul>
+        </fieldset>
+
+        <div className="flex gap-3">
+          {cluster.status === 'candidate' ? (
+            <>
+              <button
+                type="button"
+                disabled={busy}
+                onClick={() => run(cluster, { action: 'merge', eventIds, canonicalId: selected })}
+                className="bg-black text-white py-2 px-4 rounded-sm hover:bg-gray-800 transition-colors text-sm disabled:opacity-50"
+              >
+                Merge into selected
+              </button>
+              <button
+                type="button"
+                disabled={busy}
+                onClick={() => run(cluster, { action: 'split', eventIds })}
+                className="py-2 px-4 border border-gray-300 rounded-sm hover:border-gray-900 transition-colors text-sm disabled:opacity-50"
+              >
+                Not duplicates
+              </button>
+            </>
+          ) : (
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() => run(cluster, { action: 'split', eventIds })}
+              className="py-2 px-4 border border-gray-300 rounded-sm hover:border-gray-900 transition-colors text-sm disabled:opacity-50"
+            >
+              Split apart
+            </button>
+          )}
+        </div>
+      </li>
+    )
+  }
+
+  return (
+    <main className="min-h-screen bg-white">
+      <div className="max-w-4xl mx-auto px-4 py-12">
+        <h1 className="text-4xl text-gray-900 mb-2 tracking-tight font-serif">Duplicate events</h1>
+        <p className="text-gray-600 mb-8">
+          The same performance listed by several sources. Merged events keep every ticket link on the selected event.
+        </p>
+
+        <form
+          className="flex gap-3 mb-10"
+          onSubmit={formEvent => {
+            formEvent.preventDefault()
+            sessionStorage.setItem(TOKEN_KEY, tokenInput)
+            if (tokenInput === token) load()
+            else setToken(tokenInput)
+          }}
+        >
+          <label htmlFor="admin-token" className="sr-only">Admin token</label>
+          <input
+            id="admin-token"
+            type="password"
+            value={tokenInput}
+            onChange={changeEvent => setTokenInput(changeEvent.target.value)}
+            placeholder="Admin token"
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-sm text-sm"
+          />
+          <button type="submit" className="py-2 px-4 border border-gray-300 rounded-sm hover:border-gray-900 text-sm">
+            Reload
+          </button>
+        </form>
+
+        {error && (
+          <p role="alert" className="mb-8 text-sm text-red-700">{error}</p>
+        )}
+
+        {clusters === null && !error && <p className="text-gray-600">Loading…</p>}
+
+        {clusters !== null && (
+          <>
+            <section className="mb-12">
+              <h2 className="text-2xl text-gray-900 mb-4 font-serif">To review ({candidates.length})</h2>
+              {candidates.length > 0
+                ? <ul className="space-y-6">{candidates.map(renderCluster)}</ul>
+                : <p className="text-gray-600">No likely duplicates right now.</p>}
+            </section>
+
+            <section>
+              <h2 className="text-2xl text-gray-900 mb-4 font-serif">Merged ({merges.length})</h2>
+              {merges.length > 0
+                ? <ul className="space-y-6">{merges.map(renderCluster)}</ul>
+                : <p className="text-gray-600">Nothing merged yet.</p>}
+            </section>
+          </>
+        )}
+      </div>
+    </main>
+  )
+}
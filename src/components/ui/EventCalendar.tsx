@@ -0,0 +1,189 @@
+'use client'
+
+import Link from 'next/link'
+import type { Performance } from '@/lib/types'
+import {
+  calendarDays,
+  entriesByDay,
+  shiftCalendar,
+  type CalendarSpan,
+  type CalendarState
+} from '@/lib/utils/calendar'
+import {
+  DEFAULT_DATE_LOCALE,
+  formatDate,
+  formatDateRange,
+  formatMonth,
+  formatTime,
+  formatWeekday,
+  todayIn,
+  type DateLocale
+} from '@/lib/utils/dates'
+
+export interface CalendarEvent {
+  id: string
+  title: string
+  venue: string
+  href: string
+  performances: Performance[] // only the ones to place on the grid
+  when?: string // the whole run, e.g. formatPerformances(); listed for runs
+}
+
+interface EventCalendarProps {
+  events: CalendarEvent[]
+  state: CalendarState
+  anchor: string // state.anchor, or a day the filters point at
+  onChange: (state: CalendarState) => void
+  locale?: DateLocale
+  isLoading?: boolean
+}
+
+// Titles shown in a month cell before "+N more"
+const MONTH_CELL_LIMIT = 3
+
+/**
+ * Month or week grid of events, one entry per performance, with the
+ * selected day's events listed underneath. Navigation is controlled, so
+ * pages keep the calendar state in the URL next to their filters.
+ */
+export function EventCalendar({
+  events,
+  state,
+  anchor,
+  onChange,
+  locale = DEFAULT_DATE_LOCALE,
+  isLoading = false
+}: EventCalendarProps) {
+  const today = todayIn()
+  const days = calendarDays(anchor, state.span)
+  const byDay = entriesByDay(events, event => event.performances, days)
+  const month = anchor.slice(0, 7)
+  const title = state.span === 'month'
+    ? formatMonth(month, 'long', locale)
+    : formatDateRange(days[0], days[days.length - 1], locale)
+  const selected = state.selectedDay ? byDay.get(state.selectedDay) : undefined
+
+  const move = (step: number) => onChange({ span: state.span, anchor: shiftCalendar(anchor, state.span, step) })
+  const setSpan = (span: CalendarSpan) => onChange({ ...state, span, anchor: state.selectedDay || anchor })
+  const selectDay = (day: string) =>
+    onChange({ ...state, anchor: state.anchor ?? anchor, selectedDay: day === state.selectedDay ? undefined : day })
+
+  return (
+    <div aria-busy={isLoading} className={isLoading ? 'opacity-60 transition-opacity' : 'transition-opacity'}>
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => move(-1)}
+            aria-label={state.span === 'month' ? 'Previous month' : 'Previous week'}
+            className="px-3 py-2 border border-gray-300 rounded-sm text-sm text-gray-700 hover:bg-gray-100"
+          >
+            ←
+          </button>
+          <button
+            type="button"
+            onClick={() => move(1)}
+            aria-label={state.span === 'month' ? 'Next month' : 'Next week'}
+            className="px-3 py-2 border border-gray-300 rounded-sm text-sm text-gray-700 hover:bg-gray-100"
+          >
+            →
+          </button>
+          <button
+            type="button"
+            onClick={() => onChange({ span: state.span, anchor: today, selectedDay: today })}
+            className="px-3 py-2 text-sm text-gray-500 underline underline-offset-2 hover:text-gray-900"
+          >
+            Today
+          </button>
+          <h2 className="ml-2 text-xl text-gray-900" aria-live="polite">{title}</h2>
+        </div>
+        <div className="flex border border-gray-300 rounded-sm text-sm" role="group" aria-label="Calendar span">
+          {(['month', 'week'] as const).map(span => (
+            <button
+              key={span}
+              type="button"
+              aria-pressed={state.span === span}
+              onClick={() => setSpan(span)}
+              className={`px-4 py-2 capitalize ${state.span === span ? 'bg-black text-white' : 'text-gray-700 hover:bg-gray-100'}`}
+            >
+              {span}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-7 border-t border-l border-gray-200 text-sm">
+        {days.slice(0, 7).map(day => (
+          <div key={day} className="px-2 py-2 border-r border-b border-gray-200 text-xs font-medium text-gray-500">
+            {formatWeekday(day, 'short', locale)}
+          </div>
+        ))}
+        {days.map(day => {
+          const entries = byDay.get(day) || []
+          const shown = state.span === 'month' ? entries.slice(0, MONTH_CELL_LIMIT) : entries
+          const outside = state.span === 'month' && !day.startsWith(month)
+          const isSelected = day === state.selectedDay
+
+          return (
+            <button
+              key={day}
+              type="button"
+              onClick={() => selectDay(day)}
+              aria-pressed={isSelected}
+              aria-label={`${formatDate(day, 'full', locale)}, ${entries.length} ${entries.length === 1 ? 'event' : 'events'}`}
+              className={`
+                flex flex-col items-stretch text-left px-2 py-2 border-r border-b border-gray-200
+                ${state.span === 'month' ? 'min-h-[5.5rem] md:min-h-[7rem]' : 'min-h-[12rem]'}
+                ${outside ? 'bg-gray-50 text-gray-400' : 'bg-white text-gray-900'}
+                ${isSelected ? 'ring-2 ring-inset ring-gray-900' : 'hover:bg-gray-50'}
+              `}
+            >
+              <span className={`text-xs ${day === today ? 'inline-flex w-6 h-6 items-center justify-center rounded-full bg-black text-white' : ''}`}>
+                {Number(day.slice(8))}
+              </span>
+              {/* Phones get a count; the titles need the width of a larger screen */}
+              {entries.length > 0 && (
+                <span className="md:hidden mt-1 text-xs text-gray-600">{entries.length}</span>
+              )}
+              <span className="hidden md:block mt-1 space-y-1">
+                {shown.map(({ item, performance }) => (
+                  <span key={`${item.id}-${performance.time || ''}`} className="block truncate text-xs text-gray-700">
+                    {performance.time && <span className="text-gray-400">{formatTime(performance.time, locale)} </span>}
+                    {item.title}
+                  </span>
+                ))}
+                {entries.length > shown.length && (
+                  <span className="block text-xs text-gray-500">+{entries.length - shown.length} more</span>
+                )}
+              </span>
+            </button>
+          )
+        })}
+      </div>
+
+      {state.selectedDay && (
+        <section className="mt-8" aria-label={`Events on ${formatDate(state.selectedDay, 'full', locale)}`}>
+          <h3 className="text-lg text-gray-900 mb-4">{formatDate(state.selectedDay, 'full', locale)}</h3>
+          {selected && selected.length > 0 ? (
+            <ul className="divide-y divide-gray-200 border-t border-b border-gray-200">
+              {selected.map(({ item, performance }) => (
+                <li key={`${item.id}-${performance.time || ''}`} className="flex flex-wrap items-baseline gap-x-4 gap-y-1 py-3">
+                  <span className="w-12 text-sm text-gray-500">{performance.time ? formatTime(performance.time, locale) : ''}</span>
+                  <Link href={`${item.href}?date=${state.selectedDay}`} className="text-gray-900 hover:underline underline-offset-2">
+                    {item.title}
+                  </Link>
+                  <span className="text-sm text-gray-600">{item.venue}</span>
+                  {item.when && <span className="text-sm text-gray-400">{item.when}</span>}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-gray-500">
+              {selected ? 'Nothing on this day matches your filters.' : 'This day is outside the calendar shown.'}
+            </p>
+          )}
+        </section>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,101 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { FloatingCard } from '@/components/animations/FloatingCard'
+import type { Performance } from '@/lib/types'
+import { DEFAULT_DATE_LOCALE, formatDate, formatTime, todayIn, type DateLocale } from '@/lib/utils/dates'
+import { formatDistance } from '@/lib/utils/geo'
+
+interface EventCardProps {
+  title: string
+  venue?: string // omit where the page is already about the venue
+  date: string // display text, e.g. formatRunDates()
+  performances?: Performance[] // a run's performances, offered as a date picker
+  locale?: DateLocale
+  price?: number
+  location?: string
+  distanceKm?: number // from the user's position, shown as a badge
+  href?: string // detail page; omit for a static card
+  venueHref?: string
+  delay?: number
+}
+
+export function EventCard({
+  title,
+  venue,
+  date,
+  performances,
+  locale = DEFAULT_DATE_LOCALE,
+  price,
+  location,
+  distanceKm,
+  href,
+  venueHref,
+  delay = 0
+}: EventCardProps) {
+  const [selectedDate, setSelectedDate] = useState('')
+  const today = todayIn()
+  const upcoming = (performances || []).filter(performance => performance.date >= today)
+  const detailHref = href && selectedDate ? `${href}?date=${selectedDate}` : href
+
+  return (
+    <FloatingCard delay={delay}>
+      <div className="relative aspect-video bg-gray-100 flex items-center justify-center text-4xl">
+        🎭
+        {distanceKm !== undefined && (
+          <span className="absolute top-3 right-3 px-2 py-1 bg-white/90 text-gray-700 rounded-sm text-xs">
+            {formatDistance(distanceKm)} away
+          </span>
+        )}
+      </div>
+      <div className="p-6">
+        <div className="flex items-start justify-between mb-2">
+          <h3 className="text-xl font-medium text-gray-900">
+            {title}
+          </h3>
+          {price !== undefined && (
+            <span className="text-sm text-gray-500">€{price}</span>
+          )}
+        </div>
+        {venue && (
+          <p className="text-gray-600 mb-1">
+            {venueHref ? (
+              <Link href={venueHref} className="hover:text-gray-900 hover:underline underline-offset-2">
+                {venue}
+              </Link>
+            ) : venue}
+          </p>
+        )}
+        {location && (
+          <p className="text-sm text-gray-500 mb-1">{location}</p>
+        )}
+        <p className="text-sm text-gray-500 mb-4">{date}</p>
+        {href && upcoming.length > 1 && (
+          <select
+            aria-label={`Choose a date for ${title}`}
+            value={selectedDate}
+            onChange={changeEvent => setSelectedDate(changeEvent.target.value)}
+            className="w-full mb-4 px-3 py-2 border border-gray-300 rounded-sm text-sm text-gray-700 bg-white"
+          >
+            <option value="">Choose a date</option>
+            {upcoming.map(performance => (
+              <option key={`${performance.date}-${performance.time}`} value={performance.date}>
+                {formatDate(performance.date, 'short', locale)}
+                {performance.time && ` · ${formatTime(performance.time, locale)}`}
+              </option>
+            ))}
+          </select>
+        )}
+        {detailHref && (
+          <Link
+            href={detailHref}
+            className="block w-full text-center bg-black text-white py-2 px-4 rounded-sm hover:bg-gray-800 transition-colors text-sm"
+          >
+            View Details
+          </Link>
+        )}
+      </div>
+    </FloatingCard>
+  )
+}
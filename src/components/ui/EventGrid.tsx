@@ -1,92 +1,295 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo, useRef } from 'react'
 import { motion } from 'framer-motion'
+import { usePathname, useRouter, useSearchParams } from 'next/navigation'
 import { FloatingFilter } from '@/components/animations/FloatingFilter'
-import { FloatingCard } from '@/components/animations/FloatingCard'
+import { EventCalendar, type CalendarEvent } from '@/components/ui/EventCalendar'
+import { EventCard } from '@/components/ui/EventCard'
+import { EventMap } from '@/components/ui/EventMap'
+import type { MapDistrict, MapVenue } from '@/components/ui/LeafletEventMap'
+import { VirtualGrid } from '@/components/ui/VirtualGrid'
 import Link from 'next/link'
+import { getRepository } from '@/lib/data/repository'
+import {
+  EVENT_SORTS,
+  PRICE_BANDS,
+  eventFiltersFromParams,
+  eventFiltersToParams,
+  type EventFacet,
+  type FilterVocabulary
+} from '@/lib/data/eventFilters'
+import { eventPageOrder, type EventListing } from '@/lib/data/eventPages'
+import { preferredSort } from '@/lib/data/ranking'
+import { formatPerformances, performancesOf } from '@/lib/data/performances'
+import type { EventFilters, EventListingSort, Performance } from '@/lib/types'
+import { calendarDays, calendarStateFromParams, setCalendarParams, type CalendarState } from '@/lib/utils/calendar'
+import { formatMonth, monthRange, rollingMonths, todayIn } from '@/lib/utils/dates'
+import { useEventFilterStore } from '@/lib/zustand'
+import { useQuizStore } from '@/lib/stores/quizStore'
+import { useDateLocale } from '@/hooks/useDateLocale'
+import { useEventPages } from '@/hooks/useEventPages'
+import { useInfiniteScroll } from '@/hooks/useInfiniteScroll'
 
-const filterData = {
-  locations: ["All Locations", "Innere Stadt", "Leopoldstadt", "Mariahilf", "Neubau", "Josefstadt"],
-  types: ["All Types", "Opera", "Theater", "Classical Concert", "Contemporary Art", "Dance"],
-  months: ["All Months", "January", "February", "March", "April", "May"],
-  prices: ["All Prices", "Under €50", "€50-€100", "€100+"]
+const RADIUS_OPTIONS_KM = [1, 2, 5, 10]
+const DEFAULT_RADIUS_KM = 2
+const PAGE_SIZE = 24
+// The map and the calendar show every match at once rather than paging
+const FULL_LISTING_LIMIT = 500
+// Typing settles this long before it reaches the URL, and so the server's search
+const SEARCH_DEBOUNCE_MS = 250
+
+interface GridEvent {
+  id: string
+  title: string
+  venue: string
+  venueSlug: string
+  lat?: number
+  long?: number
+  distanceKm?: number
+  performances: Performance[]
+  price: number
+  location: string
 }
 
-const mockEvents = Array.from({ length: 12 }, (_, i) => {
-  const eventNames = [
-    "La Traviata", "Don Giovanni", "Carmen", "Tosca", "The Magic Flute",
-    "Swan Lake", "The Nutcracker", "Giselle", "Hamlet", "Macbeth", 
-    "The Tempest", "Romeo and Juliet"
-  ]
-  
-  const venues = [
-    "Wiener Staatsoper", "Burgtheater", "Musikverein", "Konzerthaus",
-    "Theater an der Wien", "Volkstheater", "Akademietheater", "Raimund Theater"
-  ]
-  
-  const dates = [
-    "March 12", "March 18", "April 5", "April 22", "May 8", "May 15",
-    "June 3", "June 20", "July 7", "July 25", "August 10", "August 28"
-  ]
-  
+function toGridEvent(event: EventListing): GridEvent {
   return {
-    id: i + 1,
-    title: eventNames[i],
-    venue: venues[i % venues.length],
-    date: dates[i],
-    price: 45 + (i * 12) + Math.floor(Math.random() * 25),
-    type: ["Opera", "Ballet", "Theater", "Classical Concert"][i % 4],
-    location: ["Innere Stadt", "Leopoldstadt", "Mariahilf", "Neubau", "Josefstadt", "Landstraße"][i % 6]
+    id: event.id,
+    title: event.title,
+    venue: event.venues.name,
+    venueSlug: event.venues.slug,
+    lat: event.venues.lat,
+    long: event.venues.long,
+    distanceKm: event.distance_km ?? undefined,
+    performances: performancesOf(event),
+    price: event.price ?? 0,
+    location: event.locations.name
   }
-})
+}
+
+interface FacetOption {
+  id: string
+  label: string
+}
+
+type View = 'list' | 'map' | 'calendar'
+
+function viewOf(value: string | null): View {
+  return value === 'map' || value === 'calendar' ? value : 'list'
+}
 
 export function EventGrid() {
-  const [activeFilters, setActiveFilters] = useState({
-    location: "All Locations",
-    type: "All Types", 
-    month: "All Months",
-    price: "All Prices"
-  })
-
-  // Get URL params on mount
+  const locale = useDateLocale()
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+  const { filters, setFilters } = useEventFilterStore()
+  const [vocabulary, setVocabulary] = useState<FilterVocabulary | null>(null)
+  const [filtersReady, setFiltersReady] = useState(false)
+  const [districts, setDistricts] = useState<MapDistrict[]>([])
+  const [months, setMonths] = useState<string[]>([])
+  const [geoStatus, setGeoStatus] = useState<'idle' | 'locating' | 'unavailable'>('idle')
+  const [queryDraft, setQueryDraft] = useState('')
+  const searchTimer = useRef<ReturnType<typeof setTimeout>>()
+  const discoverySort = useQuizStore(state => preferredSort(state.responses))
+
+  const view = viewOf(searchParams.get('view'))
+  const calendar = calendarStateFromParams(searchParams)
+  // Until the calendar is moved it opens on the earliest month filtered for, or today
+  const [firstMonth] = [...(filters.months || [])].sort()
+  const calendarAnchor = calendar.anchor ?? (firstMonth ? monthRange(firstMonth).from : todayIn())
+  const calendarRange = useMemo(() => {
+    const days = calendarDays(calendarAnchor, calendar.span)
+    return { from: days[0], to: days[days.length - 1] }
+  }, [calendarAnchor, calendar.span])
+  const origin = filters.userLat !== undefined && filters.userLng !== undefined
+    ? { lat: filters.userLat, long: filters.userLng }
+    : undefined
+
+  // Without a chosen order: nearest first once there is a position, best match
+  // while searching, and otherwise whatever the taste quiz's discovery answer implies
+  const defaultSort: EventListingSort | undefined = origin ? 'nearest' : filters.query?.trim() ? undefined : discoverySort
+  const listingFilters = { ...filters, sort: filters.sort ?? defaultSort }
+  const sort = eventPageOrder(listingFilters)
+
+  // Events come a page at a time from /api/events, filtered and counted there
+  const listing = useEventPages(
+    filtersReady ? listingFilters : null,
+    view === 'list' ? PAGE_SIZE : FULL_LISTING_LIMIT,
+    view === 'calendar' ? calendarRange : undefined
+  )
+  const events = useMemo(() => listing.events.map(toGridEvent), [listing.events])
+  const sentinelRef = useInfiniteScroll(listing.loadMore, view === 'list' && listing.hasMore && !listing.isLoadingMore && !listing.error)
+
+  // Load filter options
   useEffect(() => {
-    if (typeof window !== 'undefined') {
-      const params = new URLSearchParams(window.location.search)
-      const location = params.get('location')
-      const interests = params.get('interests')
-      
-      if (location && filterData.locations.includes(location)) {
-        setActiveFilters(prev => ({ ...prev, location }))
-      }
-      if (interests) {
-        const interestArray = interests.split(',')
-        if (interestArray.length > 0 && filterData.types.includes(interestArray[0])) {
-          setActiveFilters(prev => ({ ...prev, type: interestArray[0] }))
-        }
-      }
+    const loadFilterOptions = async () => {
+      const repository = getRepository()
+      const [locations, eventTypes] = await Promise.all([
+        repository.locations.list(),
+        repository.eventTypes.list()
+      ])
+
+      setDistricts(locations.flatMap(({ id, name, lat, long }) =>
+        lat !== undefined && long !== undefined ? [{ id, name, lat, long }] : []
+      ))
+      // YYYY-MM keys, filled in here so a prerendered page never shows a stale window
+      setMonths(rollingMonths())
+      setVocabulary({ locations, eventTypes })
     }
+
+    loadFilterOptions()
   }, [])
 
-  const handleFilterChange = (category: keyof typeof activeFilters, value: string) => {
-    setActiveFilters(prev => ({ ...prev, [category]: value }))
+  // The URL is the source of truth: links, reloads and back/forward all land here.
+  // Names and legacy params (`interests`) resolve once the vocabulary is loaded.
+  useEffect(() => {
+    if (!vocabulary) return
+    setFilters(eventFiltersFromParams(new URLSearchParams(searchParams.toString()), vocabulary))
+    setFiltersReady(true)
+  }, [searchParams, vocabulary, setFilters])
+
+  // Every change goes through the URL; a search replaces the entry instead of adding one per pause
+  const navigate = (
+    next: EventFilters,
+    nextView: View = view,
+    mode: 'push' | 'replace' = 'push',
+    nextCalendar: CalendarState = calendar
+  ) => {
+    setFilters(next)
+    const params = eventFiltersToParams(next)
+    if (nextView !== 'list') params.set('view', nextView)
+    if (nextView === 'calendar') setCalendarParams(params, nextCalendar)
+    const search = params.toString()
+    router[mode](search ? `${pathname}?${search}` : pathname, { scroll: false })
   }
 
-  // Filter events based on active filters
-  const filteredEvents = mockEvents.filter(event => {
-    if (activeFilters.location !== "All Locations" && event.location !== activeFilters.location) {
-      return false
-    }
-    if (activeFilters.type !== "All Types" && event.type !== activeFilters.type) {
-      return false
+  const toggleFacet = (facet: EventFacet, value: string) => {
+    const current = filters[facet] || []
+    const values = current.includes(value) ? current.filter(existing => existing !== value) : [...current, value]
+    // A month picked in the calendar view is also where the calendar goes
+    const nextCalendar = facet === 'months' ? { span: calendar.span } : calendar
+    navigate({ ...filters, [facet]: values.length > 0 ? values : undefined }, view, 'push', nextCalendar)
+  }
+
+  const clearFacet = (facet: EventFacet) => navigate({ ...filters, [facet]: undefined })
+
+  // The box follows the URL (links, back/forward); typing only reaches it once it pauses
+  useEffect(() => {
+    setQueryDraft(filters.query || '')
+  }, [filters.query])
+
+  useEffect(() => () => clearTimeout(searchTimer.current), [])
+
+  // Read fresh: a chip may have been toggled while typing
+  const commitQuery = (query: string) =>
+    navigate({ ...useEventFilterStore.getState().filters, query: query || undefined }, view, 'replace')
+
+  const changeQuery = (query: string) => {
+    setQueryDraft(query)
+    clearTimeout(searchTimer.current)
+    searchTimer.current = setTimeout(() => commitQuery(query), SEARCH_DEBOUNCE_MS)
+  }
+
+  const setNear = (radius?: number, userLat?: number, userLng?: number) => {
+    // Read fresh: geolocation answers after the render that asked for it
+    const latest = useEventFilterStore.getState().filters
+    const sort = userLat === undefined && latest.sort === 'nearest' ? undefined : latest.sort
+    navigate({ ...latest, radius, userLat, userLng, sort })
+  }
+
+  // Browser position first; a district's centre when it is denied or missing
+  const locateMe = () => {
+    if (!navigator.geolocation) {
+      setGeoStatus('unavailable')
+      return
     }
-    if (activeFilters.price !== "All Prices") {
-      if (activeFilters.price === "Under €50" && event.price >= 50) return false
-      if (activeFilters.price === "€50-€100" && (event.price < 50 || event.price > 100)) return false
-      if (activeFilters.price === "€100+" && event.price <= 100) return false
+    setGeoStatus('locating')
+    navigator.geolocation.getCurrentPosition(
+      position => {
+        setNear(filters.radius ?? DEFAULT_RADIUS_KM, position.coords.latitude, position.coords.longitude)
+        setGeoStatus('idle')
+      },
+      () => setGeoStatus('unavailable'),
+      { timeout: 10000, maximumAge: 300000 }
+    )
+  }
+
+  const handleDistrictChange = (districtId: string) => {
+    const district = districts.find(candidate => candidate.id === districtId)
+    if (district) setNear(filters.radius ?? DEFAULT_RADIUS_KM, district.lat, district.long)
+    else setNear()
+  }
+
+  // A district's centre shows as that district; anything else came from the browser
+  const originDistrict = origin && districts.find(district =>
+    Math.abs(district.lat - origin.lat) < 1e-4 && Math.abs(district.long - origin.long) < 1e-4
+  )
+
+  const facetOptions: Record<EventFacet, FacetOption[]> = {
+    locationIds: (vocabulary?.locations || []).map(({ id, name }) => ({ id, label: name })),
+    typeIds: (vocabulary?.eventTypes || []).map(({ id, name }) => ({ id, label: name })),
+    months: months.map(month => ({ id: month, label: formatMonth(month, 'short', locale) })),
+    priceBands: PRICE_BANDS.map(({ id, label }) => ({ id, label }))
+  }
+
+  const renderFacet = (facet: EventFacet, title: string, allLabel: string, delayStep: number) => {
+    const options = facetOptions[facet]
+    const selected = filters[facet] || []
+    const counts = listing.facets?.[facet]
+
+    return (
+      <div>
+        <h3 className="text-sm font-medium text-gray-700 mb-4">{title}</h3>
+        <div className="flex flex-wrap gap-3">
+          <FloatingFilter isActive={selected.length === 0} onClick={() => clearFacet(facet)}>
+            {allLabel} {counts && <span className="ml-1 text-xs opacity-60">{counts.all}</span>}
+          </FloatingFilter>
+          {options.map((option, index) => {
+            const isActive = selected.includes(option.id)
+            const count = counts?.byValue[option.id]
+            return (
+              <FloatingFilter
+                key={option.id}
+                delay={(index + 1) * delayStep}
+                isActive={isActive}
+                onClick={() => toggleFacet(facet, option.id)}
+                className={count === 0 && !isActive ? 'opacity-50' : ''}
+              >
+                {option.label} {count !== undefined && <span className="ml-1 text-xs opacity-60">{count}</span>}
+              </FloatingFilter>
+            )
+          })}
+        </div>
+      </div>
+    )
+  }
+
+  // Performances on the days shown, and in the months filtered for
+  const calendarEvents: CalendarEvent[] = view !== 'calendar' ? [] : events.map(event => ({
+    id: event.id,
+    title: event.title,
+    venue: event.venue,
+    href: `/events/${event.id}`,
+    performances: event.performances.filter(({ date }) =>
+      date >= calendarRange.from && date <= calendarRange.to &&
+      (!filters.months?.length || filters.months.includes(date.slice(0, 7)))
+    ),
+    when: event.performances.length > 1 ? formatPerformances(event.performances, locale) : undefined
+  }))
+
+  // One marker per venue, listing only the events the filters let through
+  const mapVenues = useMemo(() => events.reduce<MapVenue[]>((venues, event) => {
+    const { lat, long } = event
+    if (lat === undefined || long === undefined) return venues
+    let venue = venues.find(candidate => candidate.slug === event.venueSlug)
+    if (!venue) {
+      venue = { slug: event.venueSlug, name: event.venue, lat, long, events: [] }
+      venues.push(venue)
     }
-    return true
-  })
+    venue.events.push({ id: event.id, title: event.title, when: formatPerformances(event.performances, locale) })
+    return venues
+  }, []), [events, locale])
 
   return (
     <div className="min-h-screen bg-white">
@@ -106,7 +309,7 @@ export function EventGrid() {
           </div>
         </div>
       </header>
-      
+
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 py-12">
         {/* Page Title */}
@@ -118,116 +321,209 @@ export function EventGrid() {
             Discover upcoming cultural events across Vienna
           </p>
         </div>
-        
+
+        {/* Search */}
+        <form
+          role="search"
+          className="mb-10"
+          onSubmit={formEvent => {
+            formEvent.preventDefault()
+            // Enter searches straight away
+            clearTimeout(searchTimer.current)
+            if (queryDraft !== (filters.query || '')) commitQuery(queryDraft)
+          }}
+        >
+          <label htmlFor="event-search" className="sr-only">Search events, venues and districts</label>
+          <input
+            id="event-search"
+            type="search"
+            value={queryDraft}
+            onChange={changeEvent => changeQuery(changeEvent.target.value)}
+            placeholder="Search events, venues, districts…"
+            autoComplete="off"
+            className="w-full md:w-2/3 px-4 py-3 border border-gray-300 rounded-sm text-gray-900 focus:outline-none focus:border-gray-900"
+          />
+        </form>
+
         {/* Floating Filters */}
         <div className="mb-16">
           <div className="space-y-6">
-            {/* Location Filters */}
-            <div>
-              <h3 className="text-sm font-medium text-gray-700 mb-4">Location</h3>
-              <div className="flex flex-wrap gap-3">
-                {filterData.locations.map((location, index) => (
-                  <FloatingFilter
-                    key={location}
-                    delay={index * 0.1}
-                    isActive={activeFilters.location === location}
-                    onClick={() => handleFilterChange('location', location)}
-                  >
-                    {location}
-                  </FloatingFilter>
-                ))}
-              </div>
-            </div>
-            
-            {/* Type Filters */}
+            {renderFacet('locationIds', 'Location', 'All Locations', 0.1)}
+
+            {/* Distance Filters */}
             <div>
-              <h3 className="text-sm font-medium text-gray-700 mb-4">Event Type</h3>
-              <div className="flex flex-wrap gap-3">
-                {filterData.types.map((type, index) => (
-                  <FloatingFilter
-                    key={type}
-                    delay={index * 0.15}
-                    isActive={activeFilters.type === type}
-                    onClick={() => handleFilterChange('type', type)}
-                  >
-                    {type}
-                  </FloatingFilter>
-                ))}
+              <h3 className="text-sm font-medium text-gray-700 mb-4">Distance</h3>
+              <div className="flex flex-wrap items-center gap-3 mb-4">
+                <FloatingFilter isActive={!!origin && !originDistrict} onClick={locateMe}>
+                  {geoStatus === 'locating' ? 'Locating…' : 'Near me'}
+                </FloatingFilter>
+                <label htmlFor="near-district" className="text-sm text-gray-500">or near</label>
+                <select
+                  id="near-district"
+                  value={originDistrict?.id || ''}
+                  onChange={changeEvent => handleDistrictChange(changeEvent.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-sm text-sm text-gray-700 bg-white"
+                >
+                  <option value="">Choose a district</option>
+                  {districts.map(district => (
+                    <option key={district.id} value={district.id}>{district.name}</option>
+                  ))}
+                </select>
+                {origin && (
+                  <button type="button" onClick={() => setNear()} className="text-sm text-gray-500 underline underline-offset-2 hover:text-gray-900">
+                    Clear
+                  </button>
+                )}
               </div>
-            </div>
-            
-            {/* Month Filters */}
-            <div>
-              <h3 className="text-sm font-medium text-gray-700 mb-4">Month</h3>
-              <div className="flex flex-wrap gap-3">
-                {filterData.months.map((month, index) => (
+              {geoStatus === 'unavailable' && (
+                <p role="status" className="text-sm text-gray-500 mb-4">
+                  Your location isn&apos;t available. Choose a district instead.
+                </p>
+              )}
+              {origin && (
+                <div className="flex flex-wrap gap-3">
+                  {RADIUS_OPTIONS_KM.map((radius, index) => (
+                    <FloatingFilter
+                      key={radius}
+                      delay={index * 0.1}
+                      isActive={filters.radius === radius}
+                      onClick={() => setNear(radius, origin.lat, origin.long)}
+                    >
+                      Within {radius} km
+                    </FloatingFilter>
+                  ))}
                   <FloatingFilter
-                    key={month}
-                    delay={index * 0.2}
-                    isActive={activeFilters.month === month}
-                    onClick={() => handleFilterChange('month', month)}
+                    delay={RADIUS_OPTIONS_KM.length * 0.1}
+                    isActive={filters.radius === undefined}
+                    onClick={() => setNear(undefined, origin.lat, origin.long)}
                   >
-                    {month}
+                    Any distance
                   </FloatingFilter>
-                ))}
-              </div>
+                </div>
+              )}
             </div>
-            
-            {/* Price Filters */}
-            <div>
-              <h3 className="text-sm font-medium text-gray-700 mb-4">Price Range</h3>
-              <div className="flex flex-wrap gap-3">
-                {filterData.prices.map((price, index) => (
-                  <FloatingFilter
-                    key={price}
-                    delay={index * 0.25}
-                    isActive={activeFilters.price === price}
-                    onClick={() => handleFilterChange('price', price)}
-                  >
-                    {price}
-                  </FloatingFilter>
+
+            {renderFacet('typeIds', 'Event Type', 'All Types', 0.15)}
+            {renderFacet('months', 'Month', 'All Months', 0.2)}
+            {renderFacet('priceBands', 'Price Range', 'All Prices', 0.25)}
+          </div>
+        </div>
+
+        {/* List / Map Toggle */}
+        <div className="flex items-center justify-between mb-8">
+          <p className="text-sm text-gray-500" aria-live="polite">
+            {listing.total !== null && <>{listing.total} {listing.total === 1 ? 'event' : 'events'}</>}
+            {!filters.sort && sort === discoverySort && <> · sorted by your taste quiz</>}
+          </p>
+          <div className="flex items-center gap-4">
+            <label htmlFor="event-sort" className="sr-only">Sort events</label>
+            <select
+              id="event-sort"
+              value={sort}
+              onChange={changeEvent => navigate({ ...filters, sort: changeEvent.target.value as EventListingSort })}
+              className="px-3 py-2 border border-gray-300 rounded-sm text-sm text-gray-700 bg-white"
+            >
+              {EVENT_SORTS
+                .filter(option => option.id !== 'relevance' || filters.query?.trim())
+                .map(option => (
+                  <option key={option.id} value={option.id} disabled={option.id === 'nearest' && !origin}>
+                    {option.label}
+                  </option>
                 ))}
-              </div>
+            </select>
+            <div className="flex border border-gray-300 rounded-sm text-sm" role="group" aria-label="View">
+              {(['list', 'map', 'calendar'] as const).map(option => (
+                <button
+                  key={option}
+                  type="button"
+                  aria-pressed={view === option}
+                  onClick={() => navigate(filters, option)}
+                  className={`px-4 py-2 capitalize ${view === option ? 'bg-black text-white' : 'text-gray-700 hover:bg-gray-100'}`}
+                >
+                  {option}
+                </button>
+              ))}
             </div>
           </div>
         </div>
-        
+
+        {view === 'map' && (
+          <EventMap
+            venues={mapVenues}
+            districts={districts}
+            activeDistrictIds={filters.locationIds || []}
+            onDistrictSelect={districtId => toggleFacet('locationIds', districtId)}
+            near={origin && { ...origin, radiusKm: filters.radius }}
+          />
+        )}
+
+        {listing.error && (
+          <div role="alert" className="mb-8 text-sm text-gray-600">
+            Events couldn&apos;t be loaded ({listing.error}).{' '}
+            <button type="button" onClick={listing.retry} className="underline underline-offset-2 hover:text-gray-900">
+              Try again
+            </button>
+          </div>
+        )}
+
+        {view === 'calendar' && (
+          <EventCalendar
+            events={calendarEvents}
+            state={calendar}
+            anchor={calendarAnchor}
+            onChange={nextCalendar => navigate(filters, 'calendar', 'push', nextCalendar)}
+            locale={locale}
+            isLoading={listing.isLoading}
+          />
+        )}
+
+        {view !== 'list' && listing.total !== null && listing.total > events.length && (
+          <p className="mt-4 text-sm text-gray-500">
+            Showing the first {events.length} events. Narrow the filters to see the rest.
+          </p>
+        )}
+
         {/* Events Grid */}
-        <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-8">
-          {filteredEvents.map((event, index) => (
-            <FloatingCard key={event.id} delay={index * 0.1}>
-              <div className="aspect-video bg-gray-100 flex items-center justify-center text-4xl">
-                🎭
-              </div>
-              <div className="p-6">
-                <div className="flex items-start justify-between mb-2">
-                  <h3 className="text-xl font-medium text-gray-900">
-                    {event.title}
-                  </h3>
-                  <span className="text-sm text-gray-500">€{event.price}</span>
-                </div>
-                <p className="text-gray-600 mb-1">{event.venue}</p>
-                <p className="text-sm text-gray-500 mb-1">{event.location}</p>
-                <p className="text-sm text-gray-500 mb-4">{event.date}, 2025</p>
-                <button className="w-full bg-black text-white py-2 px-4 rounded-sm hover:bg-gray-800 transition-colors text-sm">
-                  View Details
-                </button>
-              </div>
-            </FloatingCard>
-          ))}
-        </div>
-        
-        {/* Load More */}
-        <div className="text-center mt-12">
-          <motion.button 
-            whileHover={{ scale: 1.05 }}
-            whileTap={{ scale: 0.95 }}
-            className="bg-gray-100 text-gray-900 px-8 py-3 rounded-sm hover:bg-gray-200 transition-colors"
-          >
-            Load More Events
-          </motion.button>
-        </div>
+        {view === 'list' && (
+          <div aria-busy={listing.isLoading} className={listing.isLoading ? 'opacity-60 transition-opacity' : 'transition-opacity'}>
+            <VirtualGrid
+              items={events}
+              getKey={event => event.id}
+              renderItem={(event, index) => (
+                <EventCard
+                  title={event.title}
+                  venue={event.venue}
+                  location={event.location}
+                  distanceKm={event.distanceKm}
+                  date={formatPerformances(event.performances, locale)}
+                  performances={event.performances}
+                  locale={locale}
+                  price={event.price}
+                  href={`/events/${event.id}`}
+                  venueHref={`/venues/${event.venueSlug}`}
+                  delay={(index % PAGE_SIZE) * 0.1}
+                />
+              )}
+            />
+          </div>
+        )}
+
+        {/* Load More: scrolling near the end loads the next page too */}
+        {view === 'list' && listing.hasMore && (
+          <div ref={sentinelRef} className="text-center mt-4">
+            <motion.button
+              type="button"
+              onClick={listing.loadMore}
+              disabled={listing.isLoadingMore}
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              className="bg-gray-100 text-gray-900 px-8 py-3 rounded-sm hover:bg-gray-200 transition-colors disabled:opacity-60"
+            >
+              {listing.isLoadingMore ? 'Loading…' : 'Load More Events'}
+            </motion.button>
+          </div>
+        )}
       </main>
     </div>
   )
-}
\ No newline at end of file
+}
@@ -0,0 +1,24 @@
+'use client'
+
+import dynamic from 'next/dynamic'
+import type { LeafletEventMapProps } from './LeafletEventMap'
+
+const LeafletEventMap = dynamic(() => import('./LeafletEventMap'), {
+  ssr: false,
+  loading: () => <div className="h-full w-full bg-gray-100 animate-pulse" />
+})
+
+/**
+ * Venues of the filtered events on a map, clustered when they crowd together
+ */
+export function EventMap({ className = 'h-[32rem]', ...props }: LeafletEventMapProps & { className?: string }) {
+  return (
+    <div
+      className={`relative w-full overflow-hidden rounded-sm border border-gray-200 ${className}`}
+      role="region"
+      aria-label={`Map of ${props.venues.length} venues`}
+    >
+      <LeafletEventMap {...props} />
+    </div>
+  )
+}
@@ -1,33 +1,24 @@
 'use client';
 
 import React from 'react';
+import { useRouter } from 'next/navigation';
+import { useQuizStore } from '../../lib/stores/quizStore';
+import { QUIZ_STEPS, getQuizStepHref, type QuizFilterKey } from '../../lib/quiz/steps';
+
+export interface BreadcrumbFilter {
+  key: string;
+  name: string; // e.g. 'Location'
+  label: string; // the selected value
+  editable: boolean;
+  onClick?: () => void;
+}
 
 interface FilterBreadcrumbsProps {
-  filters: {
-    location?: { 
-      label: string; 
-      editable: boolean; 
-      onClick?: () => void 
-    };
-    eventType?: { 
-      label: string; 
-      editable: boolean; 
-      onClick?: () => void 
-    };
-    month?: { 
-      label: string; 
-      editable: boolean; 
-      onClick?: () => void 
-    };
-  };
+  filters: BreadcrumbFilter[];
 }
 
 export function FilterBreadcrumbs({ filters }: FilterBreadcrumbsProps) {
-  const breadcrumbItems = [
-    { key: 'location', label: 'Location', ...filters.location },
-    { key: 'eventType', label: 'Event Type', ...filters.eventType },
-    { key: 'month', label: 'Month', ...filters.month }
-  ].filter(item => item.label !== undefined);
+  const breadcrumbItems = filters;
 
   if (breadcrumbItems.length === 0) {
     return null;
@@ -43,9 +34,7 @@ export function FilterBreadcrumbs({ filters }: FilterBreadcrumbsProps) {
           <div key={item.key} className="flex items-center space-x-2">
             {/* Filter category */}
             <span className="text-gray-500 font-medium">
-              {item.key === 'location' ? 'Location' : 
-               item.key === 'eventType' ? 'Type' : 
-               'Month'}:
+              {item.name}:
             </span>
             
             {/* Filter value */}
@@ -53,7 +42,7 @@ export function FilterBreadcrumbs({ filters }: FilterBreadcrumbsProps) {
               <button
                 onClick={item.onClick}
                 className="text-blue-600 hover:text-blue-800 underline decoration-dotted underline-offset-2 transition-colors duration-200"
-                aria-label={`Change ${item.key}: currently ${item.label}`}
+                aria-label={`Change ${item.name.toLowerCase()}: currently ${item.label}`}
               >
                 {item.label}
               </button>
@@ -86,9 +75,9 @@ export function FilterBreadcrumbs({ filters }: FilterBreadcrumbsProps) {
  * Compact version for mobile or tight spaces
  */
 export function CompactFilterBreadcrumbs({ filters }: FilterBreadcrumbsProps) {
-  const activeFilters = Object.entries(filters)
-    .filter(([, filter]) => filter && filter.label !== 'None selected yet' && filter.label !== 'Not selected')
-    .map(([key, filter]) => ({ key, ...filter }));
+  const activeFilters = filters.filter(
+    filter => filter.label !== 'None selected yet' && filter.label !== 'Not selected'
+  );
 
   if (activeFilters.length === 0) {
     return null;
@@ -127,8 +116,8 @@ export function ResettableFilterBreadcrumbs({
 }: FilterBreadcrumbsProps & { 
   onReset: () => void 
 }) {
-  const hasActiveFilters = Object.values(filters).some(
-    filter => filter && filter.label !== 'None selected yet' && filter.label !== 'Not selected'
+  const hasActiveFilters = filters.some(
+    filter => filter.label !== 'None selected yet' && filter.label !== 'Not selected'
   );
 
   return (
@@ -146,4 +135,42 @@ export function ResettableFilterBreadcrumbs({
       )}
     </div>
   );
-}
\ No newline at end of file
+}
+
+/**
+ * Breadcrumbs for the quiz answers, one per step in QUIZ_STEPS
+ *
+ * Answered steps link back to their quiz page. Labels fall back to the
+ * cached facet names, then to the raw id.
+ */
+export function QuizFilterBreadcrumbs({
+  labels = {},
+  activeStep
+}: {
+  labels?: Partial<Record<QuizFilterKey, string>>;
+  activeStep?: number; // 1-based; omit on the results page
+}) {
+  const router = useRouter();
+  const filters = useQuizStore(state => state.filters);
+  const cachedData = useQuizStore(state => state.cachedData);
+
+  const items = QUIZ_STEPS.map((step, index): BreadcrumbFilter => {
+    const value = filters[step.filterKey];
+    const isActive = activeStep === index + 1;
+
+    if (value === null || isActive) {
+      return { key: step.id, name: step.breadcrumbLabel, label: 'None selected yet', editable: false };
+    }
+
+    const facetName = cachedData[step.id]?.find(facet => facet.id === String(value))?.name;
+    return {
+      key: step.id,
+      name: step.breadcrumbLabel,
+      label: labels[step.filterKey] || facetName || String(value),
+      editable: true,
+      onClick: () => router.push(getQuizStepHref(index + 1))
+    };
+  });
+
+  return <FilterBreadcrumbs filters={items} />;
+}
@@ -1,102 +1,48 @@
 'use client'
 
-import { FloatingText } from '@/components/animations/FloatingText'
+import { NonOverlappingWordCloud, type WordCloudItem } from './NonOverlappingWordCloud'
 
-const interests = [
-  { name: 'Opera', size: 'text-3xl md:text-5xl', delay: 0 },
-  { name: 'Theater', size: 'text-2xl md:text-4xl', delay: 1.2 },
-  { name: 'Classical Music', size: 'text-4xl md:text-6xl', delay: 2.4 },
-  { name: 'Contemporary Art', size: 'text-2xl md:text-3xl', delay: 0.8 },
-  { name: 'Dance', size: 'text-3xl md:text-4xl', delay: 1.8 },
-  { name: 'Film', size: 'text-2xl md:text-4xl', delay: 0.4 },
+// Interest names double as ids, so selectedInterests stays a list of names
+const interests: WordCloudItem[] = [
+  { id: 'Opera', text: 'Opera', value: 4 },
+  { id: 'Theater', text: 'Theater', value: 3 },
+  { id: 'Classical Music', text: 'Classical Music', value: 5 },
+  { id: 'Contemporary Art', text: 'Contemporary Art', value: 2 },
+  { id: 'Dance', text: 'Dance', value: 3 },
+  { id: 'Film', text: 'Film', value: 3 },
 ]
 
+// Hoisted: an inline object would re-layout the cloud on every toggle
+const fontSizeRange = { min: 1.5, max: 3 }
+
 interface FloatingInterestStepProps {
-  onInterestSelect: (interest: string) => void
+  onInterestSelect: (interest: string) => void // toggles one interest
   selectedInterests: string[]
+  maxSelections?: number
+  onConfirm?: (interests: string[]) => void
 }
 
-export function FloatingInterestStep({ onInterestSelect, selectedInterests }: FloatingInterestStepProps) {
+export function FloatingInterestStep({
+  onInterestSelect,
+  selectedInterests,
+  maxSelections,
+  onConfirm
+}: FloatingInterestStepProps) {
   return (
-    <div className="relative min-h-[500px] w-full flex items-center justify-center">
-      <div className="relative w-full max-w-6xl h-[500px] flex items-center justify-center">
-        
-        {/* Top row */}
-        <div className="absolute top-1/4 left-1/4">
-          <div onClick={() => onInterestSelect(interests[0].name)}>
-            <FloatingText 
-              fontSize={`${interests[0].size} ${selectedInterests.includes(interests[0].name) ? 'text-blue-600' : ''}`} 
-              delay={interests[0].delay}
-              href=""
-            >
-              {interests[0].name}
-            </FloatingText>
-          </div>
-        </div>
-        
-        <div className="absolute top-1/3 right-1/4">
-          <div onClick={() => onInterestSelect(interests[1].name)}>
-            <FloatingText 
-              fontSize={`${interests[1].size} ${selectedInterests.includes(interests[1].name) ? 'text-blue-600' : ''}`} 
-              delay={interests[1].delay}
-              href=""
-            >
-              {interests[1].name}
-            </FloatingText>
-          </div>
-        </div>
-        
-        {/* Center area */}
-        <div className="absolute top-1/2 left-1/6 transform -translate-y-1/2">
-          <div onClick={() => onInterestSelect(interests[2].name)}>
-            <FloatingText 
-              fontSize={`${interests[2].size} ${selectedInterests.includes(interests[2].name) ? 'text-blue-600' : ''}`} 
-              delay={interests[2].delay}
-              href=""
-            >
-              {interests[2].name}
-            </FloatingText>
-          </div>
-        </div>
-        
-        <div className="absolute top-2/5 right-1/3">
-          <div onClick={() => onInterestSelect(interests[3].name)}>
-            <FloatingText 
-              fontSize={`${interests[3].size} ${selectedInterests.includes(interests[3].name) ? 'text-blue-600' : ''}`} 
-              delay={interests[3].delay}
-              href=""
-            >
-              {interests[3].name}
-            </FloatingText>
-          </div>
-        </div>
-        
-        {/* Bottom area */}
-        <div className="absolute bottom-1/3 left-1/3">
-          <div onClick={() => onInterestSelect(interests[4].name)}>
-            <FloatingText 
-              fontSize={`${interests[4].size} ${selectedInterests.includes(interests[4].name) ? 'text-blue-600' : ''}`} 
-              delay={interests[4].delay}
-              href=""
-            >
-              {interests[4].name}
-            </FloatingText>
-          </div>
-        </div>
-        
-        <div className="absolute bottom-1/5 right-1/5">
-          <div onClick={() => onInterestSelect(interests[5].name)}>
-            <FloatingText 
-              fontSize={`${interests[5].size} ${selectedInterests.includes(interests[5].name) ? 'text-blue-600' : ''}`} 
-              delay={interests[5].delay}
-              href=""
-            >
-              {interests[5].name}
-            </FloatingText>
-          </div>
-        </div>
-        
-      </div>
+    <div className="relative w-full max-w-6xl mx-auto">
+      <NonOverlappingWordCloud
+        items={interests}
+        onItemClick={onInterestSelect}
+        selectionMode="multiple"
+        selectedIds={selectedInterests}
+        maxSelections={maxSelections}
+        onConfirm={onConfirm}
+        fontSizeRange={fontSizeRange}
+        algorithm="spiral"
+        containerClassName="min-h-[500px]"
+        showLegend={false}
+        ariaLabel="Choose your interests"
+      />
     </div>
   )
-}
\ No newline at end of file
+}
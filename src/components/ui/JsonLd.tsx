@@ -0,0 +1,18 @@
+interface JsonLdProps {
+  data: Record<string, unknown>
+}
+
+/**
+ * schema.org structured data, rendered server-side into the page
+ */
+export function JsonLd({ data }: JsonLdProps) {
+  // Escape "<" so a title like "</script>" can't break out of the tag
+  const json = JSON.stringify(data).replace(/</g, '\\u003c')
+
+  return (
+    <script
+      type="application/ld+json"
+      dangerouslySetInnerHTML={{ __html: json }}
+    />
+  )
+}
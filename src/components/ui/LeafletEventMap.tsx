@@ -0,0 +1,196 @@
+'use client'
+
+import 'leaflet/dist/leaflet.css'
+import { useEffect, useMemo, useState } from 'react'
+import Link from 'next/link'
+import L from 'leaflet'
+import { Circle, CircleMarker, MapContainer, Marker, Popup, TileLayer, Tooltip, useMap, useMapEvents } from 'react-leaflet'
+import type { NearQuery } from '@/lib/data/eventQuery'
+import { clusterPoints, localTileSource } from '@/lib/utils/map'
+
+export interface MapVenue {
+  slug: string
+  name: string
+  lat: number
+  long: number
+  events: { id: string; title: string; when: string }[]
+}
+
+export interface MapDistrict {
+  id: string
+  name: string
+  lat: number
+  long: number
+}
+
+export interface LeafletEventMapProps {
+  venues: MapVenue[]
+  districts: MapDistrict[]
+  activeDistrictIds: string[] // selected in the location filter
+  onDistrictSelect: (districtId: string) => void
+  near?: NearQuery
+}
+
+const VIENNA_CENTER: [number, number] = [48.2082, 16.3738]
+const MAX_ZOOM = 18
+const CLUSTER_RADIUS_PX = 44
+const DISTRICT_RADIUS_M = 1100
+const POPUP_EVENT_LIMIT = 5
+
+// Refit whenever the set of plotted venues changes, i.e. a filter moved;
+// callers memoize `venues` so unrelated renders keep the user's view
+function FitToVenues({ venues }: { venues: MapVenue[] }) {
+  const map = useMap()
+  const bounds = useMemo(
+    () => venues.length > 0 ? L.latLngBounds(venues.map(venue => [venue.lat, venue.long])) : undefined,
+    [venues]
+  )
+
+  useEffect(() => {
+    if (!bounds) return
+    map.fitBounds(bounds, { padding: [48, 48], maxZoom: 15 })
+  }, [map, bounds])
+
+  return null
+}
+
+function VenuePopup({ venue }: { venue: MapVenue }) {
+  const shown = venue.events.slice(0, POPUP_EVENT_LIMIT)
+  const more = venue.events.length - shown.length
+
+  return (
+    <Popup>
+      <Link href={`/venues/${venue.slug}`} className="font-medium text-gray-900">
+        {venue.name}
+      </Link>
+      <ul className="mt-2 space-y-1">
+        {shown.map(event => (
+          <li key={event.id}>
+            <Link href={`/events/${event.id}`} className="text-gray-900 underline underline-offset-2">
+              {event.title}
+            </Link>
+            <span className="block text-gray-500">{event.when}</span>
+          </li>
+        ))}
+      </ul>
+      {more > 0 && (
+        <Link href={`/venues/${venue.slug}`} className="block mt-2 text-gray-500">
+          +{more} more
+        </Link>
+      )}
+    </Popup>
+  )
+}
+
+function VenueClusters({ venues }: { venues: MapVenue[] }) {
+  const map = useMap()
+  const [zoom, setZoom] = useState(map.getZoom())
+  useMapEvents({ zoomend: () => setZoom(map.getZoom()) })
+
+  const clusters = clusterPoints(venues, venue => map.project([venue.lat, venue.long], zoom), CLUSTER_RADIUS_PX)
+
+  return (
+    <>
+      {clusters.map(members => {
+        if (members.length === 1) {
+          const [venue] = members
+          return (
+            <CircleMarker
+              key={venue.slug}
+              center={[venue.lat, venue.long]}
+              radius={9}
+              pathOptions={{ color: '#ffffff', weight: 2, fillColor: '#111827', fillOpacity: 0.9 }}
+            >
+              <Tooltip direction="top" offset={[0, -8]}>
+                {venue.name} · {venue.events.length}
+              </Tooltip>
+              <VenuePopup venue={venue} />
+            </CircleMarker>
+          )
+        }
+
+        const bounds = L.latLngBounds(members.map(venue => [venue.lat, venue.long]))
+        const count = members.reduce((total, venue) => total + venue.events.length, 0)
+        return (
+          <Marker
+            key={members.map(venue => venue.slug).join('|')}
+            position={bounds.getCenter()}
+            title={`${members.length} venues, ${count} events`}
+            icon={L.divIcon({
+              html: String(count),
+              className: 'flex items-center justify-center rounded-full bg-gray-900 text-white text-sm font-medium border-2 border-white shadow',
+              iconSize: [36, 36]
+            })}
+            eventHandlers={{
+              click: () => map.fitBounds(bounds, { padding: [64, 64], maxZoom: Math.min(zoom + 3, MAX_ZOOM) })
+            }}
+          />
+        )
+      })}
+    </>
+  )
+}
+
+// Leaflet touches `window` on import, so only load this through EventMap
+export default function LeafletEventMap({ venues, districts, activeDistrictIds, onDistrictSelect, near }: LeafletEventMapProps) {
+  const tiles = localTileSource()
+
+  return (
+    <MapContainer
+      center={VIENNA_CENTER}
+      zoom={13}
+      maxZoom={MAX_ZOOM}
+      scrollWheelZoom={false}
+      className="h-full w-full"
+      // Leaflet's grey stays behind tiles; the vector basemap gets a paper background
+      style={tiles ? undefined : { background: '#f9fafb' }}
+    >
+      {tiles && <TileLayer url={tiles.url} attribution={tiles.attribution} maxZoom={MAX_ZOOM} />}
+
+      {/* Districts double as the location filter: click one to toggle it */}
+      {districts.map(district => {
+        const active = activeDistrictIds.includes(district.id)
+        return (
+          <Circle
+            key={district.id}
+            center={[district.lat, district.long]}
+            radius={DISTRICT_RADIUS_M}
+            pathOptions={{
+              color: active ? '#111827' : '#d1d5db',
+              weight: active ? 2 : 1,
+              fillColor: active ? '#e5e7eb' : '#f3f4f6',
+              fillOpacity: tiles ? 0.25 : 0.8
+            }}
+            eventHandlers={{ click: () => onDistrictSelect(district.id) }}
+          >
+            <Tooltip direction="center" permanent opacity={active ? 0.95 : 0.6}>
+              {district.name}
+            </Tooltip>
+          </Circle>
+        )
+      })}
+
+      {near && (
+        <>
+          {near.radiusKm !== undefined && (
+            <Circle
+              center={[near.lat, near.long]}
+              radius={near.radiusKm * 1000}
+              pathOptions={{ color: '#2563eb', weight: 1, dashArray: '4 4', fillOpacity: 0.05 }}
+              interactive={false}
+            />
+          )}
+          <CircleMarker
+            center={[near.lat, near.long]}
+            radius={6}
+            pathOptions={{ color: '#ffffff', weight: 2, fillColor: '#2563eb', fillOpacity: 1 }}
+            interactive={false}
+          />
+        </>
+      )}
+
+      <VenueClusters venues={venues} />
+      <FitToVenues venues={venues} />
+    </MapContainer>
+  )
+}
@@ -0,0 +1,39 @@
+'use client'
+
+import 'leaflet/dist/leaflet.css'
+import { CircleMarker, MapContainer, TileLayer, Tooltip } from 'react-leaflet'
+import { localTileSource } from '@/lib/utils/map'
+
+export interface LeafletMiniMapProps {
+  lat: number
+  long: number
+  label: string
+  zoom?: number
+}
+
+// Leaflet touches `window` on import, so only load this through VenueMiniMap
+// Same tiles as the event map: locally served ones when configured, otherwise none
+export default function LeafletMiniMap({ lat, long, label, zoom = 15 }: LeafletMiniMapProps) {
+  const tiles = localTileSource()
+
+  return (
+    <MapContainer
+      center={[lat, long]}
+      zoom={zoom}
+      scrollWheelZoom={false}
+      className="h-full w-full"
+      style={tiles ? undefined : { background: '#f9fafb' }}
+    >
+      {tiles && <TileLayer url={tiles.url} attribution={tiles.attribution} />}
+      <CircleMarker
+        center={[lat, long]}
+        radius={9}
+        pathOptions={{ color: '#1d4ed8', fillColor: '#2563eb', fillOpacity: 0.8 }}
+      >
+        <Tooltip direction="top" offset={[0, -8]} permanent>
+          {label}
+        </Tooltip>
+      </CircleMarker>
+    </MapContainer>
+  )
+}
@@ -0,0 +1,106 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { getRepository } from '@/lib/data/repository'
+import {
+  naturalQueryResultsHref,
+  parseNaturalQuery,
+  type ParsedQuery,
+  type QueryVocabulary
+} from '@/lib/quiz/naturalQuery'
+import { formatDate, formatDateRange, formatMonth } from '@/lib/utils/dates'
+import { trackEvent } from '@/lib/utils/analytics'
+import { useDateLocale } from '@/hooks/useDateLocale'
+
+const EXAMPLES = ['jazz in Neubau next weekend', 'Oper im März unter 50 €']
+
+/**
+ * One-line shortcut past the quiz: "jazz in Neubau next weekend" goes
+ * straight to /results, or to the first quiz step it left open
+ */
+export function NaturalQueryInput() {
+  const router = useRouter()
+  const locale = useDateLocale()
+  const [text, setText] = useState('')
+  const [vocabulary, setVocabulary] = useState<QueryVocabulary | null>(null)
+
+  useEffect(() => {
+    const loadVocabulary = async () => {
+      const repository = getRepository()
+      const [locations, eventTypes] = await Promise.all([
+        repository.locations.list(),
+        repository.eventTypes.list()
+      ])
+      setVocabulary({ locations, eventTypes })
+    }
+
+    loadVocabulary()
+  }, [])
+
+  const parsed = vocabulary && text.trim() ? parseNaturalQuery(text, vocabulary) : null
+
+  const understood = (query: ParsedQuery) => {
+    const location = vocabulary?.locations.find(candidate => candidate.id === query.location)
+    const eventType = vocabulary?.eventTypes.find(candidate => candidate.id === query.category)
+    const when = query.from && query.to
+      ? query.from === query.to ? formatDate(query.from, 'short', locale) : formatDateRange(query.from, query.to, locale)
+      : query.month && formatMonth(query.month, 'long', locale)
+    const price = query.priceMax === 0
+      ? 'free'
+      : [query.priceMin !== undefined && `from €${query.priceMin}`, query.priceMax !== undefined && `up to €${query.priceMax}`]
+        .filter(Boolean)
+        .join(' ')
+
+    return [eventType?.name, location?.name, when, price].filter((part): part is string => !!part)
+  }
+
+  const parts = parsed ? understood(parsed) : []
+
+  return (
+    <form
+      role="search"
+      className="w-full max-w-xl"
+      onSubmit={formEvent => {
+        formEvent.preventDefault()
+        if (!parsed || parts.length === 0) return
+        trackEvent('natural_query_submitted', {
+          location: parsed.location,
+          category: parsed.category,
+          month: parsed.month,
+          understoodCount: parts.length,
+          unmatchedCount: parsed.unmatched.length
+        })
+        router.push(naturalQueryResultsHref(parsed))
+      }}
+    >
+      <label htmlFor="natural-query" className="sr-only">Describe what you want to see</label>
+      <div className="flex gap-2">
+        <input
+          id="natural-query"
+          type="search"
+          value={text}
+          onChange={changeEvent => setText(changeEvent.target.value)}
+          placeholder={`Try “${EXAMPLES[0]}”`}
+          autoComplete="off"
+          aria-describedby="natural-query-preview"
+          className="flex-1 px-4 py-3 bg-white/90 border border-gray-300 rounded-sm text-gray-900 focus:outline-none focus:border-gray-900"
+        />
+        <button
+          type="submit"
+          disabled={parts.length === 0}
+          className="bg-black text-white py-3 px-5 rounded-sm hover:bg-gray-800 transition-colors text-sm disabled:opacity-50"
+        >
+          Go
+        </button>
+      </div>
+      <p id="natural-query-preview" className="mt-2 min-h-[1.25rem] text-sm text-gray-500" aria-live="polite">
+        {parsed && parts.length > 0 && <>Looking for {parts.join(' · ')}</>}
+        {parsed && parts.length === 0 && <>Name a district, an event type or a date, e.g. “{EXAMPLES[1]}”</>}
+        {parsed && parsed.unmatched.length > 0 && parts.length > 0 && (
+          <span className="text-gray-400"> (ignored: {parsed.unmatched.join(', ')})</span>
+        )}
+      </p>
+    </form>
+  )
+}
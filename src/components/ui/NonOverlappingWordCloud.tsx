@@ -24,11 +24,14 @@ export interface WordCloudItem {
   id: string;
   text: string;
   value: number; // for sizing (event count, importance, etc.)
+  disabled?: boolean; // shown greyed out, not clickable (e.g. zero events)
 }
 
+export type WordCloudSelectionMode = 'single' | 'multiple';
+
 export interface NonOverlappingWordCloudProps {
   items: WordCloudItem[];
-  onItemClick: (id: string) => void;
+  onItemClick?: (id: string) => void;
   fontSizeRange: { min: number; max: number };
   algorithm?: 'spiral' | 'force-directed' | 'hybrid' | 'auto';
   minTapTarget?: number; // pixels
@@ -38,6 +41,13 @@ export interface NonOverlappingWordCloudProps {
   legendText?: string;
   ariaLabel?: string;
   isLoading?: boolean;
+  // Selection: 'single' picks on click; 'multiple' toggles words until confirmed
+  selectionMode?: WordCloudSelectionMode;
+  selectedIds?: string[]; // controlled; highlighted as chosen
+  onSelectionChange?: (ids: string[]) => void;
+  maxSelections?: number; // other words lock once reached ('multiple' only)
+  onConfirm?: (ids: string[]) => void; // renders a confirm button ('multiple' only)
+  confirmLabel?: string;
 }
 
 export function NonOverlappingWordCloud({
@@ -51,7 +61,13 @@ export function NonOverlappingWordCloud({
   showLegend = true,
   legendText = 'Larger words mean more events',
   ariaLabel = 'Interactive word cloud',
-  isLoading = false
+  isLoading = false,
+  selectionMode = 'single',
+  selectedIds = [],
+  onSelectionChange,
+  maxSelections,
+  onConfirm,
+  confirmLabel = 'Continue'
 }: NonOverlappingWordCloudProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const [placedItems, setPlacedItems] = useState<PlacedItem[]>([]);
@@ -74,6 +90,29 @@ export function NonOverlappingWordCloud({
     return calculateFontSizes(items, fontSizeRange, minTapTarget);
   }, [items, fontSizeRange, minTapTarget]);
 
+  const isMultiple = selectionMode === 'multiple';
+  const isAtLimit = isMultiple && maxSelections !== undefined && selectedIds.length >= maxSelections;
+
+  // Zero-count words, plus unselected words once the selection limit is hit
+  const disabledIds = useMemo(
+    () => new Set(items
+      .filter(item => item.disabled || (isAtLimit && !selectedIds.includes(item.id)))
+      .map(item => item.id)),
+    [items, isAtLimit, selectedIds]
+  );
+
+  const handleItemClick = (id: string) => {
+    if (isMultiple) {
+      const nextIds = selectedIds.includes(id)
+        ? selectedIds.filter(selectedId => selectedId !== id)
+        : [...selectedIds, id];
+      onSelectionChange?.(nextIds);
+    } else {
+      onSelectionChange?.([id]);
+    }
+    onItemClick?.(id);
+  };
+
   // Initialize performance monitor
   useEffect(() => {
     if (!performanceMonitorRef.current) {
@@ -259,8 +298,9 @@ export function NonOverlappingWordCloud({
       <div 
         ref={containerRef}
         className="relative w-full min-h-[400px] overflow-hidden"
-        role="list"
+        role={isMultiple ? 'listbox' : 'list'}
         aria-label={ariaLabel}
+        aria-multiselectable={isMultiple || undefined}
       >
         {isLayoutComplete && placedItems.map(item => (
           <WordCloudButton
@@ -268,9 +308,12 @@ export function NonOverlappingWordCloud({
             item={item}
             onClick={() => {
               console.log('🔗 NonOverlappingWordCloud onClick triggered for:', item.id);
-              onItemClick(item.id);
+              handleItemClick(item.id);
             }}
             minTapTarget={minTapTarget}
+            selectionMode={selectionMode}
+            isSelected={selectedIds.includes(item.id)}
+            disabled={disabledIds.has(item.id)}
             animationSettings={animationSettings}
           />
         ))}
@@ -285,6 +328,26 @@ export function NonOverlappingWordCloud({
         )}
       </div>
 
+      {/* Selection status and confirm action */}
+      {isMultiple && isLayoutComplete && (
+        <div className="flex flex-col items-center mt-6 space-y-3">
+          <p className="text-sm text-gray-600" aria-live="polite">
+            {maxSelections !== undefined
+              ? `${selectedIds.length} of ${maxSelections} selected${isAtLimit ? ' (deselect one to change)' : ''}`
+              : `${selectedIds.length} selected`}
+          </p>
+          {onConfirm && (
+            <button
+              onClick={() => onConfirm(selectedIds)}
+              disabled={selectedIds.length === 0}
+              className="px-6 py-3 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {confirmLabel}
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Legend */}
       {showLegend && legendText && isLayoutComplete && (
         <p className="text-center mt-4 text-sm text-gray-600" aria-hidden="true">
@@ -1,19 +1,16 @@
 'use client';
 
 import React from 'react';
+import { QUIZ_STEPS } from '../../lib/quiz/steps';
 
 interface ProgressIndicatorProps {
-  current: number; // 1, 2, or 3
-  total: number; // always 3
-  label: string; // 'Location', 'Event Type', 'Time'
+  current: number; // 1-based position in QUIZ_STEPS
 }
 
-export function ProgressIndicator({ current, total, label }: ProgressIndicatorProps) {
-  const steps = [
-    { number: 1, label: 'Location' },
-    { number: 2, label: 'Event Type' },
-    { number: 3, label: 'Time' }
-  ];
+export function ProgressIndicator({ current }: ProgressIndicatorProps) {
+  const steps = QUIZ_STEPS.map((step, index) => ({ number: index + 1, label: step.label }));
+  const total = steps.length;
+  const label = steps[current - 1]?.label || '';
 
   return (
     <div className="flex justify-center items-center py-6">
@@ -0,0 +1,318 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { EventCalendar, type CalendarEvent } from './EventCalendar';
+import { EventCard } from './EventCard';
+import { QuizFilterBreadcrumbs } from './FilterBreadcrumbs';
+import { LoadingGrid } from './LoadingSpinner';
+import { useQuizStore } from '../../lib/stores/quizStore';
+import { useAuthStore } from '../../lib/zustand';
+import { getRepository } from '../../lib/data/repository';
+import { rankEventsByTaste } from '../../lib/data/ranking';
+import type { EventQuery } from '../../lib/data/eventQuery';
+import { formatRunDates, performancesOf } from '../../lib/data/performances';
+import { formatDate, formatDateRange, formatMonth, monthRange, todayIn } from '../../lib/utils/dates';
+import type { CalendarState } from '../../lib/utils/calendar';
+import { useDateLocale } from '../../hooks/useDateLocale';
+import { QUIZ_STEPS, getQuizStepHref, isQuizAnswered } from '../../lib/quiz/steps';
+import { getTasteStepHref, hasTasteResponses } from '../../lib/quiz/taste';
+import { resultsRefinementsFromParams, type ResultsRefinements } from '../../lib/quiz/naturalQuery';
+import { withinPrice } from '../../lib/data/eventFilters';
+import type { EventWithDetails } from '../../lib/types';
+import { trackEvent } from '../../lib/utils/analytics';
+
+interface LoosenSuggestion {
+  stepNumber: number;
+  count: number;
+}
+
+// ", free", ", up to €50", ", €20–€80" for the results summary
+function formatPriceBounds({ priceMin, priceMax }: ResultsRefinements): string {
+  if (priceMax === 0) return ', free';
+  if (priceMin !== undefined && priceMax !== undefined) return `, €${priceMin}–€${priceMax}`;
+  if (priceMax !== undefined) return `, up to €${priceMax}`;
+  return priceMin !== undefined ? `, from €${priceMin}` : '';
+}
+
+export function QuizResults() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { filters, responses, syncFromURL, getIncompleteStep, setResponses } = useQuizStore();
+  const savedResponses = useAuthStore(state => state.user?.quiz_responses);
+  const hasTaste = hasTasteResponses(responses);
+  const locale = useDateLocale();
+  const [hasSynced, setHasSynced] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [events, setEvents] = useState<EventWithDetails[]>([]);
+  const [suggestions, setSuggestions] = useState<LoosenSuggestion[]>([]);
+  // Kept out of the URL: every URL change re-syncs the quiz and reloads the results
+  const [view, setView] = useState<'list' | 'calendar'>('list');
+  const [calendar, setCalendar] = useState<CalendarState>({ span: 'month' });
+  const [labels, setLabels] = useState<{
+    locations: Record<string, string>;
+    categories: Record<string, string>;
+  }>({ locations: {}, categories: {} });
+
+  const isComplete = isQuizAnswered(filters);
+
+  // Date range and price bounds from a typed query (see lib/quiz/naturalQuery.ts)
+  const refinements = useMemo(
+    () => resultsRefinementsFromParams(new URLSearchParams(searchParams.toString()), filters.month),
+    [searchParams, filters.month]
+  );
+
+  // URL is the source of truth on arrival; store fills any gaps
+  useEffect(() => {
+    syncFromURL(new URLSearchParams(searchParams.toString()));
+    setHasSynced(true);
+  }, [searchParams, syncFromURL]);
+
+  // Route guard - send incomplete quizzes back to the missing step
+  useEffect(() => {
+    if (hasSynced && !isComplete) {
+      const missingStep = getIncompleteStep();
+      console.warn(`Incomplete quiz state, redirecting to step ${missingStep}`);
+      router.push(getQuizStepHref(missingStep));
+    }
+  }, [hasSynced, isComplete, getIncompleteStep, router]);
+
+  // Signed-in users bring their saved taste profile to a fresh device
+  useEffect(() => {
+    if (!hasTaste && hasTasteResponses(savedResponses)) {
+      setResponses(savedResponses || {});
+    }
+  }, [hasTaste, savedResponses, setResponses]);
+
+  // Display names for the selected ids
+  useEffect(() => {
+    const loadLabels = async () => {
+      const repository = getRepository();
+      const [locations, categories] = await Promise.all([
+        repository.locations.list(),
+        repository.eventTypes.list()
+      ]);
+
+      setLabels({
+        locations: Object.fromEntries(locations.map(location => [location.id, location.name])),
+        categories: Object.fromEntries(categories.map(category => [category.id, category.name]))
+      });
+    };
+
+    loadLabels();
+  }, []);
+
+  useEffect(() => {
+    if (!hasSynced || !isComplete) return;
+
+    let isCancelled = false;
+    const repository = getRepository();
+    const query: EventQuery = {
+      ...Object.fromEntries(QUIZ_STEPS.map(step => [step.queryKey, filters[step.filterKey] ?? undefined])),
+      // A range narrows the month, and may run into the next one
+      ...(refinements.from ? { month: undefined, from: refinements.from, to: refinements.to } : {})
+    };
+
+    const loadResults = async () => {
+      setIsLoading(true);
+
+      // Price bounds from a typed query have no EventQuery form, so they filter here
+      const listMatches = async (eventQuery: EventQuery) =>
+        (await repository.events.list(eventQuery)).filter(event => withinPrice(event.price, refinements));
+      const matches = await listMatches(query);
+
+      // Nothing matches every answer: count what dropping each single filter would give
+      let loosened: LoosenSuggestion[] = [];
+      if (matches.length === 0) {
+        loosened = await Promise.all(
+          QUIZ_STEPS.map(async (step, index) => ({
+            stepNumber: index + 1,
+            count: (await listMatches({
+              ...query,
+              [step.queryKey]: undefined,
+              ...(step.queryKey === 'month' ? { from: undefined, to: undefined } : {})
+            })).length
+          }))
+        );
+      }
+
+      if (isCancelled) return;
+
+      setEvents(rankEventsByTaste(matches, responses));
+      setSuggestions(loosened.filter(suggestion => suggestion.count > 0));
+      setIsLoading(false);
+
+      trackEvent('quiz_results_viewed', {
+        ...filters,
+        resultCount: matches.length,
+        tasteRanked: hasTasteResponses(responses)
+      });
+    };
+
+    loadResults();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [hasSynced, isComplete, filters, responses, refinements]);
+
+  const locationLabel = filters.location
+    ? labels.locations[filters.location] || filters.location
+    : 'Not selected';
+  const categoryLabel = filters.category
+    ? labels.categories[filters.category] || filters.category
+    : 'Not selected';
+  const monthLabel = refinements.from && refinements.to
+    ? refinements.from === refinements.to
+      ? formatDate(refinements.from, 'medium', locale)
+      : formatDateRange(refinements.from, refinements.to, locale)
+    : filters.month ? formatMonth(filters.month, 'long', locale) : 'Not selected';
+  const priceLabel = formatPriceBounds(refinements);
+
+  // The dates the results cover: a typed range, or the quiz month from today on
+  const range = refinements.from && refinements.to
+    ? { from: refinements.from, to: refinements.to }
+    : filters.month ? monthRange(filters.month) : null;
+  const calendarEvents: CalendarEvent[] = events.map(event => {
+    const performances = performancesOf(event);
+    return {
+      id: event.id,
+      title: event.title,
+      venue: event.venues.name,
+      href: `/events/${event.id}`,
+      performances: performances.filter(({ date }) => !range || (date >= range.from && date <= range.to)),
+      when: performances.length > 1 ? formatRunDates(event, locale) : undefined
+    };
+  });
+
+  if (!hasSynced || !isComplete) {
+    return (
+      <main className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <p className="text-gray-600">Redirecting...</p>
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-screen bg-white">
+      <QuizFilterBreadcrumbs
+        labels={{ location: locationLabel, category: categoryLabel, month: monthLabel }}
+      />
+
+      <section className="max-w-7xl mx-auto px-4 py-12">
+        <div className="mb-12 text-center">
+          <h1 className="text-4xl md:text-5xl text-gray-900 mb-4 tracking-tight font-serif">
+            Your events
+          </h1>
+          <p className="text-lg text-gray-600" aria-live="polite">
+            {isLoading
+              ? 'Finding events...'
+              : `${events.length} ${events.length === 1 ? 'event' : 'events'} for ${categoryLabel} in ${locationLabel} during ${monthLabel}${priceLabel}`}
+          </p>
+          {!isLoading && events.length > 1 && (
+            <p className="mt-4 text-sm text-gray-600">
+              {hasTaste ? 'Best matches for your taste come first. ' : 'Want sharper results? '}
+              <Link
+                href={getTasteStepHref(1)}
+                className="text-blue-600 hover:text-blue-800 underline decoration-dotted underline-offset-2"
+              >
+                {hasTaste ? 'Edit your taste answers' : 'Answer a few taste questions'}
+              </Link>
+            </p>
+          )}
+        </div>
+
+        {!isLoading && events.length > 0 && (
+          <div className="flex justify-end mb-8">
+            <div className="flex border border-gray-300 rounded-sm text-sm" role="group" aria-label="View">
+              {(['list', 'calendar'] as const).map(option => (
+                <button
+                  key={option}
+                  type="button"
+                  aria-pressed={view === option}
+                  onClick={() => setView(option)}
+                  className={`px-4 py-2 capitalize ${view === option ? 'bg-black text-white' : 'text-gray-700 hover:bg-gray-100'}`}
+                >
+                  {option}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <LoadingGrid count={3} />
+        ) : events.length > 0 && view === 'calendar' ? (
+          <EventCalendar
+            events={calendarEvents}
+            state={calendar}
+            anchor={calendar.anchor ?? range?.from ?? todayIn()}
+            onChange={setCalendar}
+            locale={locale}
+          />
+        ) : events.length > 0 ? (
+          <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-8">
+            {events.map((event, index) => (
+              <EventCard
+                key={event.id}
+                title={event.title}
+                venue={event.venues.name}
+                location={event.locations.name}
+                date={formatRunDates(event, locale)}
+                performances={performancesOf(event)}
+                locale={locale}
+                price={event.price}
+                href={`/events/${event.id}`}
+                venueHref={`/venues/${event.venues.slug}`}
+                delay={index * 0.1}
+              />
+            ))}
+          </div>
+        ) : (
+          <div className="max-w-xl mx-auto text-center">
+            <p className="text-xl text-gray-900 mb-4">
+              Nothing matches all your choices yet
+            </p>
+
+            {suggestions.length > 0 ? (
+              <>
+                <p className="text-gray-600 mb-6">Try loosening one of them:</p>
+                <ul className="space-y-3">
+                  {suggestions.map(suggestion => (
+                    <li key={suggestion.stepNumber}>
+                      <Link
+                        href={getQuizStepHref(suggestion.stepNumber)}
+                        className="text-blue-600 hover:text-blue-800 underline decoration-dotted underline-offset-2"
+                      >
+                        Choose {QUIZ_STEPS[suggestion.stepNumber - 1].anyLabel}
+                      </Link>
+                      <span className="text-gray-500">
+                        {' '}— {suggestion.count} {suggestion.count === 1 ? 'event matches' : 'events match'} your other choices
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            ) : (
+              <p className="text-gray-600">
+                Try starting over with a different district.
+              </p>
+            )}
+          </div>
+        )}
+
+        <div className="text-center mt-12 space-x-6 text-sm">
+          <Link href={getQuizStepHref(1)} className="text-gray-600 hover:text-gray-900">
+            Start over
+          </Link>
+          <Link href="/events" className="text-gray-600 hover:text-gray-900">
+            Browse all events
+          </Link>
+        </div>
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,131 @@
+'use client';
+
+import React, { useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { NonOverlappingWordCloud } from './NonOverlappingWordCloud';
+import { ProgressIndicator } from './ProgressIndicator';
+import { QuizFilterBreadcrumbs } from './FilterBreadcrumbs';
+import { useQuizStore } from '../../lib/stores/quizStore';
+import { useQuizFacets } from '../../hooks/useQuizFacets';
+import { QUIZ_STEPS, getQuizStep, getQuizStepHref, getQuizStepNumber } from '../../lib/quiz/steps';
+import { trackEvent } from '../../lib/utils/analytics';
+
+interface QuizStepProps {
+  stepId: string;
+}
+
+/**
+ * One quiz step, rendered from its QUIZ_STEPS definition
+ */
+export function QuizStep({ stepId }: QuizStepProps) {
+  const router = useRouter();
+  const step = getQuizStep(stepId) || QUIZ_STEPS[0];
+  const stepNumber = getQuizStepNumber(step);
+  const isLastStep = stepNumber === QUIZ_STEPS.length;
+  const { filters, answerStep, canAccessStep, getIncompleteStep, getURLParams } = useQuizStore();
+  const { items, isLoading, error, retry, hasDisabled } = useQuizFacets(step);
+  const canAccess = canAccessStep(stepNumber);
+
+  // Route guard - redirect if an earlier step is unanswered
+  useEffect(() => {
+    if (!canAccess) {
+      const missingStep = getIncompleteStep();
+      console.warn(`Incomplete quiz state, redirecting to step ${missingStep}`);
+      router.push(getQuizStepHref(missingStep));
+    }
+  }, [canAccess, getIncompleteStep, router]);
+
+  const handleSelect = (facetId: string) => {
+    const selected = items.find(item => item.id === facetId);
+    if (!selected) return;
+
+    answerStep(step.id, facetId);
+
+    // Earlier answers give the click its context
+    const context = Object.fromEntries(
+      QUIZ_STEPS.slice(0, stepNumber - 1).map(earlier => [`${earlier.analyticsName}Context`, filters[earlier.filterKey]])
+    );
+    trackEvent(`click_${step.analyticsName}`, {
+      [`${step.analyticsName}Id`]: facetId,
+      [`${step.analyticsName}Name`]: selected.text,
+      eventCount: selected.value,
+      step: `${step.analyticsName}_selection`,
+      autoAdvanced: true,
+      ...context
+    });
+
+    // Auto-advance (no Continue button needed), after a short delay for visual feedback
+    setTimeout(() => {
+      router.push(isLastStep
+        ? `/results?${getURLParams().toString()}`
+        : getQuizStepHref(stepNumber + 1));
+    }, 300);
+  };
+
+  // Don't render while the route guard redirects
+  if (!canAccess) {
+    return (
+      <main className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <p className="text-gray-600">Redirecting...</p>
+        </div>
+      </main>
+    );
+  }
+
+  const showLegend = step.legend.show === 'always' || hasDisabled;
+  const legendText = hasDisabled && step.legend.disabledText ? step.legend.disabledText : step.legend.text;
+
+  return (
+    <main className="min-h-screen flex flex-col justify-center bg-white">
+      <ProgressIndicator current={stepNumber} />
+
+      {stepNumber > 1 && <QuizFilterBreadcrumbs activeStep={stepNumber} />}
+
+      <section className="flex-1 flex flex-col justify-center px-4">
+        <div className="text-center mb-8">
+          <h1 className="text-4xl md:text-5xl text-gray-900 mb-4 tracking-tight font-serif">
+            {step.title}
+          </h1>
+          <p className="text-lg text-gray-600">
+            {step.subtitle}
+          </p>
+        </div>
+
+        <div className="max-w-6xl mx-auto w-full">
+          {error ? (
+            <div className="min-h-[500px] flex flex-col items-center justify-center" role="alert">
+              <p className="text-red-600 mb-2">Couldn&apos;t load {step.itemNoun}</p>
+              <button
+                onClick={retry}
+                className="mt-4 px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+              >
+                Try Again
+              </button>
+            </div>
+          ) : (
+            <NonOverlappingWordCloud
+              items={items}
+              onItemClick={handleSelect}
+              fontSizeRange={step.fontSizeRange}
+              algorithm="spiral"
+              minTapTarget={48}
+              minSpacing={8}
+              containerClassName="min-h-[500px]"
+              showLegend={showLegend}
+              legendText={legendText}
+              ariaLabel={step.ariaLabel}
+              isLoading={isLoading}
+            />
+          )}
+        </div>
+
+        <div className="text-center mt-8">
+          <p className="text-sm text-gray-500">
+            {step.hint}
+          </p>
+        </div>
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,175 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { NonOverlappingWordCloud, type WordCloudItem } from './NonOverlappingWordCloud';
+import { SimpleProgressBar } from './ProgressIndicator';
+import { useQuizStore } from '../../lib/stores/quizStore';
+import { useAuthStore } from '../../lib/zustand';
+import { getRepository } from '../../lib/data/repository';
+import { getQuizStepHref, isQuizAnswered } from '../../lib/quiz/steps';
+import {
+  TASTE_STEPS,
+  getTasteSelection,
+  getTasteStep,
+  getTasteStepHref,
+  type TasteStepDefinition
+} from '../../lib/quiz/taste';
+import type { QuizResponses } from '../../lib/types';
+import { trackEvent } from '../../lib/utils/analytics';
+
+// Stable reference, so toggling a word doesn't re-run the cloud layout
+const FONT_SIZE_RANGE = { min: 1.1, max: 2.2 };
+
+interface TasteStepProps {
+  stepId: string;
+}
+
+function toResponseValue(step: TasteStepDefinition, ids: string[]): QuizResponses[keyof QuizResponses] {
+  if (step.multiple) return ids.length > 0 ? ids : undefined;
+  return ids[0] as QuizResponses[keyof QuizResponses];
+}
+
+/**
+ * One step of the optional taste quiz, rendered from its TASTE_STEPS definition
+ */
+export function TasteStep({ stepId }: TasteStepProps) {
+  const router = useRouter();
+  const step = getTasteStep(stepId) || TASTE_STEPS[0];
+  const stepNumber = TASTE_STEPS.indexOf(step) + 1;
+  const isLastStep = stepNumber === TASTE_STEPS.length;
+  const { filters, responses, setResponse, getIncompleteStep, getURLParams } = useQuizStore();
+  const { user, setUser } = useAuthStore();
+  const [selectedIds, setSelectedIds] = useState<string[]>(() => getTasteSelection(responses, step));
+  const [isSaving, setIsSaving] = useState(false);
+  const hasQuizAnswers = isQuizAnswered(filters);
+
+  // The taste quiz refines results, so the main quiz has to be done first
+  useEffect(() => {
+    if (!hasQuizAnswers) {
+      router.push(getQuizStepHref(getIncompleteStep()));
+    }
+  }, [hasQuizAnswers, getIncompleteStep, router]);
+
+  const items = useMemo<WordCloudItem[]>(
+    () => step.options.map(option => ({ id: option.id, text: option.text, value: option.weight })),
+    [step]
+  );
+
+  const finish = async () => {
+    const { responses: latest } = useQuizStore.getState();
+
+    // Signed-in users keep their taste profile across devices
+    if (user) {
+      setIsSaving(true);
+      try {
+        setUser(await getRepository().users.update(user.id, { quiz_responses: latest }));
+      } catch (error) {
+        console.error('Failed to save taste profile:', error);
+      }
+    }
+
+    trackEvent('taste_quiz_completed', {
+      answered: TASTE_STEPS.filter(definition => getTasteSelection(latest, definition).length > 0).length,
+      signedIn: !!user
+    });
+    router.push(`/results?${getURLParams().toString()}`);
+  };
+
+  const advance = () => {
+    if (isLastStep) {
+      finish();
+    } else {
+      router.push(getTasteStepHref(stepNumber + 1));
+    }
+  };
+
+  const save = (ids: string[]) => {
+    setResponse(step.responseKey, toResponseValue(step, ids));
+    trackEvent(`click_${step.analyticsName}`, {
+      selection: ids.join(','),
+      step: `${step.analyticsName}_selection`,
+      tasteStep: stepNumber
+    });
+  };
+
+  const handleItemClick = (id: string) => {
+    if (step.multiple) return; // the cloud toggles, handleConfirm saves
+
+    save([id]);
+    // Short delay for visual feedback, as in the main quiz
+    setTimeout(advance, 300);
+  };
+
+  const handleConfirm = (ids: string[]) => {
+    save(ids);
+    advance();
+  };
+
+  if (!hasQuizAnswers) {
+    return (
+      <main className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <p className="text-gray-600">Redirecting...</p>
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-screen flex flex-col justify-center bg-white">
+      <div className="max-w-md w-full mx-auto pt-6 px-4">
+        <SimpleProgressBar current={stepNumber} total={TASTE_STEPS.length} />
+        <p className="text-center text-sm text-gray-600 mt-3" aria-live="polite">
+          Taste {stepNumber} of {TASTE_STEPS.length}: {step.label}
+        </p>
+      </div>
+
+      <section className="flex-1 flex flex-col justify-center px-4">
+        <div className="text-center mb-8">
+          <h1 className="text-4xl md:text-5xl text-gray-900 mb-4 tracking-tight font-serif">
+            {step.title}
+          </h1>
+          <p className="text-lg text-gray-600">
+            {step.subtitle}
+          </p>
+        </div>
+
+        <div className="max-w-6xl mx-auto w-full">
+          <NonOverlappingWordCloud
+            items={items}
+            onItemClick={handleItemClick}
+            selectionMode={step.multiple ? 'multiple' : 'single'}
+            selectedIds={selectedIds}
+            onSelectionChange={setSelectedIds}
+            maxSelections={step.maxSelections}
+            onConfirm={step.multiple && !isSaving ? handleConfirm : undefined}
+            confirmLabel={isLastStep ? 'See my events' : 'Continue'}
+            fontSizeRange={FONT_SIZE_RANGE}
+            algorithm="spiral"
+            minTapTarget={48}
+            minSpacing={8}
+            containerClassName="min-h-[400px]"
+            showLegend={false}
+            ariaLabel={step.ariaLabel}
+          />
+        </div>
+
+        <div className="text-center mt-8 space-y-4">
+          <p className="text-sm text-gray-500">
+            {step.hint}
+          </p>
+          <div className="space-x-6 text-sm">
+            <button onClick={advance} disabled={isSaving} className="text-gray-600 hover:text-gray-900">
+              Skip this question
+            </button>
+            <Link href={`/results?${getURLParams().toString()}`} className="text-gray-600 hover:text-gray-900">
+              Back to results
+            </Link>
+          </div>
+        </div>
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,24 @@
+'use client'
+
+import dynamic from 'next/dynamic'
+import type { LeafletMiniMapProps } from './LeafletMiniMap'
+
+const LeafletMiniMap = dynamic(() => import('./LeafletMiniMap'), {
+  ssr: false,
+  loading: () => <div className="h-full w-full bg-gray-100 animate-pulse" />
+})
+
+/**
+ * Small map pinning one venue; scroll-wheel zoom stays off so the page scrolls past it
+ */
+export function VenueMiniMap({ className = 'h-64', ...props }: LeafletMiniMapProps & { className?: string }) {
+  return (
+    <div
+      className={`relative w-full overflow-hidden rounded-sm border border-gray-200 ${className}`}
+      role="img"
+      aria-label={`Map showing ${props.label}`}
+    >
+      <LeafletMiniMap {...props} />
+    </div>
+  )
+}
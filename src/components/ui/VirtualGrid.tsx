@@ -0,0 +1,54 @@
+'use client'
+
+import { Fragment, useEffect, useState, type ReactNode } from 'react'
+import { useVirtualRows } from '@/hooks/useVirtualRows'
+
+// Same breakpoints as the md:grid-cols-2 lg:grid-cols-3 rows below
+const COLUMN_QUERIES: [string, number][] = [
+  ['(min-width: 1024px)', 3],
+  ['(min-width: 768px)', 2]
+]
+
+function useGridColumns() {
+  const [columns, setColumns] = useState(1)
+
+  useEffect(() => {
+    const queries = COLUMN_QUERIES.map(([query, count]) => ({ list: window.matchMedia(query), count }))
+    const update = () => setColumns(queries.find(({ list }) => list.matches)?.count ?? 1)
+
+    update()
+    queries.forEach(({ list }) => list.addEventListener('change', update))
+    return () => queries.forEach(({ list }) => list.removeEventListener('change', update))
+  }, [])
+
+  return columns
+}
+
+interface VirtualGridProps<T> {
+  items: T[]
+  getKey: (item: T) => string
+  renderItem: (item: T, index: number) => ReactNode
+  estimateRowHeight?: number // px, including the gap below a row
+}
+
+/**
+ * Responsive card grid that only renders the rows near the viewport, so
+ * hundreds of cards scroll as smoothly as a dozen
+ */
+export function VirtualGrid<T>({ items, getKey, renderItem, estimateRowHeight = 480 }: VirtualGridProps<T>) {
+  const columns = useGridColumns()
+  const rowCount = Math.ceil(items.length / columns)
+  const { containerRef, measureRow, start, end, paddingTop, paddingBottom } = useVirtualRows(rowCount, estimateRowHeight, columns)
+
+  return (
+    <div ref={containerRef} style={{ paddingTop, paddingBottom }}>
+      {Array.from({ length: end - start }, (_, offset) => start + offset).map(row => (
+        <div key={row} ref={measureRow} data-index={row} className="grid md:grid-cols-2 lg:grid-cols-3 gap-8 pb-8">
+          {items.slice(row * columns, (row + 1) * columns).map((item, column) => (
+            <Fragment key={getKey(item)}>{renderItem(item, row * columns + column)}</Fragment>
+          ))}
+        </div>
+      ))}
+    </div>
+  )
+}
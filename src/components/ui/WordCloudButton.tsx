@@ -10,6 +10,7 @@ interface WordCloudButtonProps {
   minTapTarget: number;
   isSelected?: boolean;
   disabled?: boolean;
+  selectionMode?: 'single' | 'multiple'; // 'multiple' makes this a listbox option
   animationSettings?: {
     amplitude: { min: number; max: number };
     duration: { min: number; max: number };
@@ -23,8 +24,10 @@ export function WordCloudButton({
   minTapTarget,
   isSelected = false,
   disabled = false,
+  selectionMode = 'single',
   animationSettings
 }: WordCloudButtonProps) {
+  const isToggle = selectionMode === 'multiple';
   const buttonRef = useRef<HTMLButtonElement>(null);
   const [isFocused, setIsFocused] = useState(false);
   const [isPressed, setIsPressed] = useState(false);
@@ -155,8 +158,9 @@ export function WordCloudButton({
       onFocus={handleFocus}
       onBlur={handleBlur}
       className={getButtonClasses()}
-      role="listitem"
+      role={isToggle ? 'option' : 'listitem'}
       aria-label={accessibilityLabel}
+      aria-selected={isToggle ? isSelected : undefined}
       disabled={disabled}
       tabIndex={disabled ? -1 : 0}
       // Additional accessibility attributes
@@ -179,7 +183,9 @@ export function WordCloudButton({
         id={`wordcloud-help-${item.id}`}
         className="sr-only"
       >
-        Click to select {item.text}. This option has {item.importance} events available.
+        {isToggle
+          ? `Click to ${isSelected ? 'remove' : 'add'} ${item.text}.`
+          : `Click to select ${item.text}.`} This option has {item.importance} events available.
       </span>
     </button>
   );
@@ -0,0 +1,20 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { DEFAULT_DATE_LOCALE, pickDateLocale, type DateLocale } from '../lib/utils/dates';
+
+/**
+ * Date locale from the browser's languages
+ *
+ * Starts at the default so the server render and the first client render
+ * agree, then switches once mounted.
+ */
+export function useDateLocale(): DateLocale {
+  const [locale, setLocale] = useState<DateLocale>(DEFAULT_DATE_LOCALE);
+
+  useEffect(() => {
+    setLocale(pickDateLocale(navigator.languages));
+  }, []);
+
+  return locale;
+}
@@ -0,0 +1,101 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { fetchApi } from '../lib/api/client';
+import { eventFiltersToParams } from '../lib/data/eventFilters';
+import type { EventListing, EventPage } from '../lib/data/eventPages';
+import type { EventFilters } from '../lib/types';
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Request failed';
+}
+
+/**
+ * Cursor-paged /api/events listing for a set of filters
+ *
+ * A filter change starts over from the first page, keeping the previous
+ * events on screen until it arrives; `loadMore` appends the next page.
+ * Responses for filters that have since changed are dropped. Pass null
+ * filters to wait, e.g. until they have been read from the URL; `range`
+ * narrows the listing to the dates on screen, as a calendar needs.
+ */
+export function useEventPages(filters: EventFilters | null, pageSize: number, range?: { from: string; to: string }) {
+  const params = filters ? eventFiltersToParams(filters) : null;
+  if (range) {
+    params?.set('from', range.from);
+    params?.set('to', range.to);
+  }
+  params?.set('limit', String(pageSize));
+  const paramsKey = params ? params.toString() : null;
+
+  const [events, setEvents] = useState<EventListing[]>([]);
+  const [page, setPage] = useState<Omit<EventPage, 'events'> | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<{ message: string; page: 'first' | 'more' } | null>(null);
+  const [attempt, setAttempt] = useState(0);
+  const currentKey = useRef(paramsKey);
+  currentKey.current = paramsKey;
+
+  useEffect(() => {
+    if (paramsKey === null) return;
+
+    let isCancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    fetchApi<EventPage>('/api/events', Object.fromEntries(new URLSearchParams(paramsKey)))
+      .then(({ events: firstPage, ...rest }) => {
+        if (isCancelled) return;
+        setEvents(firstPage);
+        setPage(rest);
+      })
+      .catch(fetchError => {
+        console.error('Failed to load events:', fetchError);
+        if (!isCancelled) setError({ message: errorMessage(fetchError), page: 'first' });
+      })
+      .finally(() => {
+        if (!isCancelled) setIsLoading(false);
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [paramsKey, attempt]);
+
+  const nextCursor = page?.nextCursor ?? null;
+  const canLoadMore = !!nextCursor && !isLoading && !isLoadingMore && !error;
+
+  const loadMore = useCallback(() => {
+    if (!canLoadMore || paramsKey === null || nextCursor === null) return;
+
+    setIsLoadingMore(true);
+    fetchApi<EventPage>('/api/events', { ...Object.fromEntries(new URLSearchParams(paramsKey)), cursor: nextCursor })
+      .then(({ events: nextPage, nextCursor: following }) => {
+        if (currentKey.current !== paramsKey) return;
+        setEvents(previous => [...previous, ...nextPage]);
+        setPage(previous => previous && { ...previous, nextCursor: following });
+      })
+      .catch(fetchError => {
+        console.error('Failed to load more events:', fetchError);
+        if (currentKey.current === paramsKey) setError({ message: errorMessage(fetchError), page: 'more' });
+      })
+      .finally(() => setIsLoadingMore(false));
+  }, [canLoadMore, paramsKey, nextCursor]);
+
+  return {
+    events,
+    total: page?.total ?? null,
+    facets: page?.facets,
+    hasMore: !!nextCursor,
+    isLoading,
+    isLoadingMore,
+    error: error?.message ?? null,
+    loadMore,
+    // A failed first page loads again; a failed later page resumes from the last cursor
+    retry: () => {
+      if (error?.page === 'first') setAttempt(previous => previous + 1);
+      setError(null);
+    }
+  };
+}
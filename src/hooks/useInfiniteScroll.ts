@@ -0,0 +1,34 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+
+/**
+ * Calls `onLoadMore` when a sentinel element comes within `rootMargin` of
+ * the viewport; returns the ref to put on it
+ *
+ * The observer restarts whenever `enabled` flips back on, so a page too
+ * short to push the sentinel away loads the next one straight after.
+ */
+export function useInfiniteScroll(onLoadMore: () => void, enabled: boolean, rootMargin = '600px') {
+  const [sentinel, setSentinel] = useState<HTMLElement | null>(null);
+  const loadMore = useRef(onLoadMore);
+
+  useEffect(() => {
+    loadMore.current = onLoadMore;
+  }, [onLoadMore]);
+
+  useEffect(() => {
+    if (!sentinel || !enabled || typeof IntersectionObserver === 'undefined') return;
+
+    const observer = new IntersectionObserver(
+      entries => {
+        if (entries.some(entry => entry.isIntersecting)) loadMore.current();
+      },
+      { rootMargin }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [sentinel, enabled, rootMargin]);
+
+  return setSentinel;
+}
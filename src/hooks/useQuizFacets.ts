@@ -0,0 +1,78 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useQuizStore } from '../lib/stores/quizStore';
+import { fetchApi } from '../lib/api/client';
+import { QUIZ_STEPS, getQuizStepNumber, type QuizStepDefinition } from '../lib/quiz/steps';
+import type { FacetCount } from '../lib/types';
+import type { WordCloudItem } from '../components/ui/NonOverlappingWordCloud';
+
+const NO_FACETS: FacetCount[] = [];
+
+/**
+ * Live facet counts for a quiz step, filtered by the steps before it
+ *
+ * Results are kept in the quiz store cache, so going back a step doesn't
+ * refetch. The store clears a cache whenever an earlier answer changes.
+ */
+export function useQuizFacets(step: QuizStepDefinition) {
+  const filters = useQuizStore(state => state.filters);
+  const facets = useQuizStore(state => state.cachedData[step.id] || NO_FACETS);
+  const earlierSteps = QUIZ_STEPS.slice(0, getQuizStepNumber(step) - 1);
+  // Only answers from earlier steps narrow the counts
+  const params = Object.fromEntries(
+    earlierSteps.map(earlier => [earlier.filterKey, filters[earlier.filterKey]])
+  );
+  const paramsKey = JSON.stringify(params);
+  const [isLoading, setIsLoading] = useState(facets.length === 0);
+  const [error, setError] = useState<string | null>(null);
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    const store = useQuizStore.getState();
+    if (store.cachedData[step.id]?.length > 0) {
+      setIsLoading(false);
+      return;
+    }
+
+    let isCancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    fetchApi<FacetCount[]>(step.dataSource, JSON.parse(paramsKey))
+      .then(data => {
+        if (!isCancelled) store.setCachedFacets(step.id, data);
+      })
+      .catch(fetchError => {
+        console.error(`Failed to load ${step.id} facets:`, fetchError);
+        if (!isCancelled) setError(fetchError instanceof Error ? fetchError.message : 'Request failed');
+      })
+      .finally(() => {
+        if (!isCancelled) setIsLoading(false);
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [step, paramsKey, attempt]);
+
+  // Zero-count options stay visible but can't be picked
+  const items = useMemo<WordCloudItem[]>(
+    () => facets.map(facet => ({
+      id: facet.id,
+      text: facet.name,
+      value: facet.eventCount,
+      disabled: facet.eventCount === 0
+    })),
+    [facets]
+  );
+
+  return {
+    facets,
+    items,
+    isLoading,
+    error,
+    hasDisabled: items.some(item => item.disabled),
+    retry: () => setAttempt(previous => previous + 1)
+  };
+}
@@ -0,0 +1,109 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+/**
+ * Windowing for a long list of rows scrolled with the page
+ *
+ * Only rows within `overscanPx` of the viewport are rendered; the rest
+ * become padding above and below, sized from each row's measured height
+ * once it has been on screen and from `estimateHeight` before that.
+ * Render rows with `measureRow` as their ref and `data-index` set, and
+ * change `layoutKey` whenever rows are regrouped (e.g. a column change),
+ * which drops the measurements.
+ */
+export function useVirtualRows(count: number, estimateHeight: number, layoutKey?: unknown, overscanPx = 800) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [heights, setHeights] = useState<number[]>([]);
+  const [range, setRange] = useState({ start: 0, end: 0 });
+
+  useEffect(() => {
+    setHeights([]);
+  }, [layoutKey]);
+
+  // Rows come and go while scrolling; the observer outlives them
+  const rows = useRef(new Set<HTMLElement>());
+  const observer = useRef<ResizeObserver | null>(null);
+
+  useEffect(() => {
+    if (typeof ResizeObserver === 'undefined') return;
+
+    const resizeObserver = new ResizeObserver(entries => {
+      const connected = entries.map(({ target }) => target as HTMLElement).filter(row => {
+        // Rows scrolled out of the window report a height of zero on the way out
+        if (row.isConnected) return true;
+        resizeObserver.unobserve(row);
+        rows.current.delete(row);
+        return false;
+      });
+      setHeights(current => {
+        let next = current;
+        connected.forEach(row => {
+          const index = Number(row.dataset.index);
+          if (next[index] !== row.offsetHeight) {
+            if (next === current) next = [...current];
+            next[index] = row.offsetHeight;
+          }
+        });
+        return next;
+      });
+    });
+    rows.current.forEach(row => resizeObserver.observe(row));
+    observer.current = resizeObserver;
+
+    return () => {
+      resizeObserver.disconnect();
+      observer.current = null;
+    };
+  }, []);
+
+  const measureRow = useCallback((row: HTMLElement | null) => {
+    if (!row) return;
+    rows.current.add(row);
+    observer.current?.observe(row);
+  }, []);
+
+  // offsets[i] is the top of row i; offsets[count] the full height
+  const offsets = useMemo(() => {
+    const tops = [0];
+    for (let index = 0; index < count; index++) {
+      tops.push(tops[index] + (heights[index] ?? estimateHeight));
+    }
+    return tops;
+  }, [count, heights, estimateHeight]);
+
+  useEffect(() => {
+    const update = () => {
+      const container = containerRef.current;
+      if (!container) return;
+      const top = -container.getBoundingClientRect().top - overscanPx;
+      const bottom = top + window.innerHeight + 2 * overscanPx;
+
+      let start = 0;
+      while (start < count && offsets[start + 1] <= top) start++;
+      let end = start;
+      while (end < count && offsets[end] < bottom) end++;
+      setRange(current => current.start === start && current.end === end ? current : { start, end });
+    };
+
+    update();
+    window.addEventListener('scroll', update, { passive: true });
+    window.addEventListener('resize', update);
+    return () => {
+      window.removeEventListener('scroll', update);
+      window.removeEventListener('resize', update);
+    };
+  }, [count, offsets, overscanPx]);
+
+  const end = Math.min(range.end, count);
+  const start = Math.min(range.start, end);
+
+  return {
+    containerRef,
+    measureRow,
+    start,
+    end,
+    paddingTop: offsets[start],
+    paddingBottom: offsets[count] - offsets[end]
+  };
+}
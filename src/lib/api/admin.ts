@@ -0,0 +1,26 @@
+/**
+ * Shared-secret guard for admin-only route handlers
+ */
+
+import type { NextRequest } from 'next/server';
+import { apiError } from './response';
+
+/**
+ * Null when the request may proceed, otherwise the error response to return
+ *
+ * Expects `Authorization: Bearer <ADMIN_API_TOKEN>`. Without a configured
+ * token admin routes stay open in development and closed in production.
+ */
+export function checkAdmin(request: NextRequest) {
+  const token = process.env.ADMIN_API_TOKEN;
+
+  if (!token) {
+    return process.env.NODE_ENV === 'production'
+      ? apiError('Admin API is disabled: ADMIN_API_TOKEN is not set', 403, 'admin_disabled')
+      : null;
+  }
+
+  return request.headers.get('authorization') === `Bearer ${token}`
+    ? null
+    : apiError('Admin token missing or invalid', 401, 'unauthorized');
+}
@@ -0,0 +1,49 @@
+/**
+ * Browser-side fetch helpers for our ApiResponse<T> route handlers
+ */
+
+import type { ApiResponse } from '../types';
+
+type QueryValue = string | number | null | undefined;
+
+async function unwrap<T>(path: string, response: Response): Promise<T> {
+  const body = (await response.json()) as ApiResponse<T>;
+
+  if (!response.ok || !body.success || body.data === undefined) {
+    throw new Error(body.error?.message || `Request to ${path} failed (${response.status})`);
+  }
+
+  return body.data;
+}
+
+/**
+ * GET an API route and unwrap its envelope, throwing on failure
+ */
+export async function fetchApi<T>(
+  path: string,
+  params: Record<string, QueryValue> = {},
+  init?: RequestInit
+): Promise<T> {
+  const search = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== null && value !== undefined && value !== '') {
+      search.set(key, String(value));
+    }
+  });
+
+  const query = search.toString();
+  return unwrap<T>(path, await fetch(query ? `${path}?${query}` : path, init));
+}
+
+/**
+ * POST a JSON body to an API route and unwrap its envelope
+ */
+export async function postApi<T>(path: string, body: unknown, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(path, {
+    ...init,
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...init.headers },
+    body: JSON.stringify(body)
+  });
+  return unwrap<T>(path, response);
+}
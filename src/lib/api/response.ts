@@ -0,0 +1,33 @@
+/**
+ * JSON helpers for route handlers, wrapping payloads in ApiResponse<T>
+ */
+
+import { NextResponse } from 'next/server';
+import type { ApiResponse } from '../types';
+
+export function apiSuccess<T>(data: T, init?: ResponseInit) {
+  return NextResponse.json<ApiResponse<T>>({ success: true, data }, init);
+}
+
+export function apiError(message: string, status = 500, code?: string) {
+  return NextResponse.json<ApiResponse<never>>(
+    { success: false, error: { message, code } },
+    { status }
+  );
+}
+
+/**
+ * Run a handler body and turn unexpected failures into a 500 envelope
+ */
+export async function withApiErrors<T>(context: string, handler: () => Promise<T>) {
+  try {
+    return apiSuccess(await handler());
+  } catch (error) {
+    console.error(`API ${context} failed:`, error);
+    return apiError(
+      error instanceof Error ? error.message : 'Unexpected error',
+      500,
+      'internal_error'
+    );
+  }
+}
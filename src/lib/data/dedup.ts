@@ -0,0 +1,297 @@
+/**
+ * Cross-source duplicate detection and merging
+ *
+ * Two events are candidate duplicates when they are at the same venue on
+ * the same day, start within half an hour of each other (or one has no
+ * time) and their normalized titles are close. Candidates are clustered
+ * transitively. Merging keeps one canonical event, collects every source's
+ * ticket link on it and points the others at it through `merged_into`;
+ * merged events drop out of listings but keep their rows as provenance.
+ * Splitting undoes a merge, including the fields it filled in on the
+ * canonical event, and remembers the events as distinct.
+ */
+
+import type { EventWithDetails, MergeFill, MergeFilledField, TicketLink } from '../types';
+import type { Repository, Row, Update } from './repository';
+import { slugify } from '../utils/slug';
+
+export type DuplicateClusterStatus = 'candidate' | 'merged';
+
+export interface DuplicateCluster {
+  key: string; // sorted member ids
+  status: DuplicateClusterStatus;
+  canonicalId: string; // current canonical when merged, suggested otherwise
+  score: number; // lowest title similarity inside the cluster, 0-1
+  events: EventWithDetails[];
+}
+
+const TITLE_THRESHOLD = 0.8;
+const TIME_WINDOW_MINUTES = 30;
+
+// Words that vary between listings of the same performance
+const NOISE_WORDS = new Set([
+  'the', 'a', 'an', 'la', 'le', 'il', 'der', 'die', 'das', 'ein', 'eine',
+  'premiere', 'tickets', 'ticket', 'live', 'in', 'im', 'at', 'am'
+]);
+
+// Gaps on the canonical event a merge fills from its duplicates
+const MERGE_FILLED_FIELDS: MergeFilledField[] = ['ticket_url', 'description', 'time', 'price'];
+
+// Sources we trust most to be the canonical record, best first
+const SOURCE_PRIORITY = ['manual', 'csv', 'seed', 'jsonld', 'eventbrite', 'ticketmaster'];
+
+export function normalizeTitle(title: string): string[] {
+  return slugify(title)
+    .split('-')
+    .filter(word => word && !NOISE_WORDS.has(word));
+}
+
+function bigrams(text: string): string[] {
+  return Array.from({ length: Math.max(0, text.length - 1) }, (_, i) => text.slice(i, i + 2));
+}
+
+/**
+ * Similarity of two titles, 0-1
+ *
+ * The better of a character-bigram Dice score (catches typos and word
+ * order) and token overlap (catches "Tosca" vs "Tosca – Puccini").
+ */
+export function titleSimilarity(a: string, b: string): number {
+  const tokensA = normalizeTitle(a);
+  const tokensB = normalizeTitle(b);
+  if (tokensA.length === 0 || tokensB.length === 0) return 0;
+
+  const joinedA = tokensA.join(' ');
+  const joinedB = tokensB.join(' ');
+  if (joinedA === joinedB) return 1;
+
+  const pairsB = bigrams(joinedB);
+  const remaining = [...pairsB];
+  const pairsA = bigrams(joinedA);
+  let shared = 0;
+  pairsA.forEach(pair => {
+    const index = remaining.indexOf(pair);
+    if (index !== -1) {
+      shared++;
+      remaining.splice(index, 1);
+    }
+  });
+  const dice = pairsA.length + pairsB.length > 0 ? (2 * shared) / (pairsA.length + pairsB.length) : 0;
+
+  const setB = new Set(tokensB);
+  const common = new Set(tokensA.filter(token => setB.has(token))).size;
+  const overlap = common / Math.min(new Set(tokensA).size, setB.size);
+
+  return Math.max(dice, overlap);
+}
+
+function minutesOf(time?: string) {
+  if (!time) return null;
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function timesCompatible(a?: string, b?: string) {
+  const minutesA = minutesOf(a);
+  const minutesB = minutesOf(b);
+  return minutesA === null || minutesB === null || Math.abs(minutesA - minutesB) <= TIME_WINDOW_MINUTES;
+}
+
+function markedDistinct(a: Row<'events'>, b: Row<'events'>) {
+  return Boolean(a.distinct_from?.includes(b.id) || b.distinct_from?.includes(a.id));
+}
+
+function completeness(event: Row<'events'>) {
+  return [event.description, event.time, event.price, event.ticket_url].filter(value => value !== undefined).length;
+}
+
+/**
+ * Best record to keep: most trusted source, then the most complete, then the oldest
+ */
+export function pickCanonical<T extends Row<'events'>>(events: T[]): T {
+  const rank = (source: string) => {
+    const index = SOURCE_PRIORITY.indexOf(source);
+    return index === -1 ? SOURCE_PRIORITY.length : index;
+  };
+
+  return [...events].sort((a, b) =>
+    rank(a.source) - rank(b.source) ||
+    completeness(b) - completeness(a) ||
+    a.created_at.localeCompare(b.created_at) ||
+    a.id.localeCompare(b.id)
+  )[0];
+}
+
+function clusterKey(events: Row<'events'>[]) {
+  return events.map(event => event.id).sort().join('+');
+}
+
+/**
+ * Candidate clusters among unmerged events, plus every existing merge
+ *
+ * Pass events including merged ones (`includeMerged`) so merges show up.
+ */
+export function findDuplicateClusters(events: EventWithDetails[]): DuplicateCluster[] {
+  const active = events.filter(event => !event.merged_into);
+
+  // Union-find over candidate pairs, only ever comparing within venue + day
+  const parent = new Map(active.map(event => [event.id, event.id]));
+  const find = (id: string): string => {
+    const root = parent.get(id) as string;
+    if (root === id) return id;
+    const top = find(root);
+    parent.set(id, top);
+    return top;
+  };
+  const scores = new Map<string, number>();
+
+  const groups = new Map<string, EventWithDetails[]>();
+  active.forEach(event => {
+    const key = `${event.venue_id}|${event.date}`;
+    groups.set(key, [...(groups.get(key) || []), event]);
+  });
+
+  groups.forEach(group => {
+    for (let i = 0; i < group.length; i++) {
+      for (let j = i + 1; j < group.length; j++) {
+        const [a, b] = [group[i], group[j]];
+        if (!timesCompatible(a.time, b.time) || markedDistinct(a, b)) continue;
+
+        const score = titleSimilarity(a.title, b.title);
+        if (score < TITLE_THRESHOLD) continue;
+
+        const [rootA, rootB] = [find(a.id), find(b.id)];
+        const merged = Math.min(score, scores.get(rootA) ?? 1, scores.get(rootB) ?? 1);
+        parent.set(rootB, rootA);
+        scores.set(rootA, merged);
+      }
+    }
+  });
+
+  const members = new Map<string, EventWithDetails[]>();
+  active.forEach(event => {
+    const root = find(event.id);
+    members.set(root, [...(members.get(root) || []), event]);
+  });
+
+  const candidates: DuplicateCluster[] = Array.from(members.entries())
+    .filter(([, cluster]) => cluster.length > 1)
+    .map(([root, cluster]) => ({
+      key: clusterKey(cluster),
+      status: 'candidate',
+      canonicalId: pickCanonical(cluster).id,
+      score: scores.get(root) ?? 1,
+      events: cluster
+    }));
+
+  const merges: DuplicateCluster[] = active
+    .map(canonical => ({ canonical, duplicates: events.filter(event => event.merged_into === canonical.id) }))
+    .filter(({ duplicates }) => duplicates.length > 0)
+    .map(({ canonical, duplicates }) => ({
+      key: clusterKey([canonical, ...duplicates]),
+      status: 'merged',
+      canonicalId: canonical.id,
+      score: Math.min(...duplicates.map(duplicate => titleSimilarity(canonical.title, duplicate.title))),
+      events: [canonical, ...duplicates]
+    }));
+
+  return [...candidates, ...merges];
+}
+
+function linksOf(event: Row<'events'>): TicketLink[] {
+  if (event.ticket_links?.length) return event.ticket_links;
+  return event.ticket_url ? [{ url: event.ticket_url, source: event.source, event_id: event.id }] : [];
+}
+
+function uniqueLinks(links: TicketLink[]) {
+  const seen = new Set<string>();
+  return links.filter(link => !seen.has(link.url) && seen.add(link.url));
+}
+
+async function loadEvents(repository: Repository, eventIds: string[]) {
+  const events = await Promise.all(eventIds.map(id => repository.events.get(id)));
+  const missing = eventIds.filter((_, index) => !events[index]);
+  if (missing.length > 0) {
+    throw new Error(`Unknown event ${missing.join(', ')}`);
+  }
+  return events as EventWithDetails[];
+}
+
+/**
+ * Merge events into `canonicalId`; returns the updated canonical event
+ */
+export async function mergeEvents(
+  repository: Repository,
+  eventIds: string[],
+  canonicalId: string
+): Promise<Row<'events'>> {
+  const ids = Array.from(new Set([canonicalId, ...eventIds]));
+  if (ids.length < 2) {
+    throw new Error('Merging needs at least two events');
+  }
+
+  const events = await loadEvents(repository, ids);
+  if (events.some(event => event.merged_into)) {
+    throw new Error('Split merged events before merging them again');
+  }
+  const canonical = events.find(event => event.id === canonicalId) as EventWithDetails;
+  const duplicates = events.filter(event => event.id !== canonicalId);
+
+  // Events already merged into a duplicate move over to the new canonical
+  const inherited = (await repository.events.list({ includeMerged: true, from: canonical.date, to: canonical.date }))
+    .filter(event => duplicates.some(duplicate => event.merged_into === duplicate.id));
+
+  // Fill gaps from the duplicates; price shows "from", so the lowest wins
+  const prices = events.map(event => event.price).filter((price): price is number => price !== undefined);
+  const filled: Pick<Update<'events'>, MergeFilledField> = {
+    ticket_url: canonical.ticket_url ?? duplicates.find(event => event.ticket_url)?.ticket_url,
+    description: canonical.description ?? duplicates.find(event => event.description)?.description,
+    time: canonical.time ?? duplicates.find(event => event.time)?.time,
+    price: prices.length > 0 ? Math.min(...prices) : undefined
+  };
+  const fields = MERGE_FILLED_FIELDS.filter(field => filled[field] !== canonical[field]);
+  const fill: MergeFill = {
+    event_ids: duplicates.map(event => event.id),
+    fields,
+    previous: Object.fromEntries(
+      fields.filter(field => canonical[field] !== undefined).map(field => [field, canonical[field]])
+    )
+  };
+
+  const updated = await repository.events.update(canonical.id, {
+    ...filled,
+    ticket_links: uniqueLinks(events.flatMap(linksOf)),
+    merge_fills: fields.length > 0 ? [...(canonical.merge_fills || []), fill] : canonical.merge_fills
+  });
+  for (const event of [...duplicates, ...inherited]) {
+    await repository.events.update(event.id, { merged_into: canonical.id });
+  }
+  return updated;
+}
+
+/**
+ * Undo a merge or dismiss a candidate: every event stands alone again and
+ * is remembered as distinct from the others
+ */
+export async function splitEvents(repository: Repository, eventIds: string[]): Promise<void> {
+  const ids = Array.from(new Set(eventIds));
+  const events = await loadEvents(repository, ids);
+
+  for (const event of events) {
+    const others = ids.filter(id => id !== event.id);
+    const undone = (event.merge_fills || []).filter(fill => fill.event_ids.some(id => others.includes(id)));
+    // Latest merge first, so a field filled twice ends on its value before both
+    const restored: Pick<Update<'events'>, MergeFilledField> = {};
+    [...undone].reverse().forEach(fill => fill.fields.forEach(field => {
+      Object.assign(restored, { [field]: fill.previous[field] });
+    }));
+
+    await repository.events.update(event.id, {
+      ...restored,
+      merged_into: event.merged_into && ids.includes(event.merged_into) ? null : event.merged_into,
+      ticket_links: event.ticket_links?.filter(link => !others.includes(link.event_id)),
+      merge_fills: event.merge_fills?.filter(fill => !undone.includes(fill)),
+      distinct_from: Array.from(new Set([...(event.distinct_from || []), ...others]))
+    });
+  }
+}
@@ -0,0 +1,221 @@
+/**
+ * Event listing filters: matching, live facet counts and the URL form
+ *
+ * The listing keeps `EventFilters` in useEventFilterStore and mirrors them
+ * into the query string, so a link reproduces the view and back/forward
+ * walks through earlier selections. Each facet takes several values, any of
+ * which matches; facets combine with AND. A value's count is how many events
+ * selecting it would show given the *other* facets, as with quiz facets.
+ */
+
+import type { EventFilters, EventListingSort, EventType, EventWithDetails, Location, Performance } from '../types';
+import { performancesOf } from './performances';
+import { slugify } from '../utils/slug';
+import { monthRange, normalizeMonth, todayIn } from '../utils/dates';
+
+export type EventFacet = 'locationIds' | 'typeIds' | 'months' | 'priceBands';
+
+export const EVENT_FACETS: EventFacet[] = ['locationIds', 'typeIds', 'months', 'priceBands'];
+
+export interface PriceBand {
+  id: string;
+  label: string;
+  matches: (price: number) => boolean;
+}
+
+export const PRICE_BANDS: PriceBand[] = [
+  { id: 'under-50', label: 'Under €50', matches: price => price < 50 },
+  { id: '50-100', label: '€50-€100', matches: price => price >= 50 && price <= 100 },
+  { id: '100-plus', label: '€100+', matches: price => price > 100 }
+];
+
+export interface EventSortOption {
+  id: EventListingSort;
+  label: string;
+}
+
+// 'relevance' only applies while searching and 'nearest' with a position
+export const EVENT_SORTS: EventSortOption[] = [
+  { id: 'relevance', label: 'Best match' },
+  { id: 'soonest', label: 'Soonest' },
+  { id: 'price_asc', label: 'Price: low to high' },
+  { id: 'price_desc', label: 'Price: high to low' },
+  { id: 'nearest', label: 'Nearest' },
+  { id: 'rating', label: 'Highest rated venue' },
+  { id: 'hidden_gems', label: 'Hidden gems' }
+];
+
+// `sort` values the events API took before the listing had sort modes
+const SORT_ALIASES: Record<string, EventListingSort> = { date: 'soonest', distance: 'nearest' };
+
+export function eventListingSortOf(value: string | null): EventListingSort | undefined {
+  if (value === null) return undefined;
+  return SORT_ALIASES[value] ?? EVENT_SORTS.find(option => option.id === value)?.id;
+}
+
+export interface FilterableEvent {
+  locationId: string;
+  typeId: string;
+  price?: number; // none counts as free
+  performances: Performance[];
+}
+
+export function toFilterableEvent(event: EventWithDetails): FilterableEvent {
+  return {
+    locationId: event.location_id,
+    typeId: event.type_id,
+    price: event.price,
+    performances: performancesOf(event)
+  };
+}
+
+// Ids and names that links may carry instead of ids
+export interface FilterVocabulary {
+  locations: Pick<Location, 'id' | 'name'>[];
+  eventTypes: Pick<EventType, 'id' | 'name'>[];
+}
+
+// Query param per facet, plus older names still read from links
+const FACET_PARAMS: Record<EventFacet, { name: string; aliases: string[] }> = {
+  locationIds: { name: 'location', aliases: [] },
+  typeIds: { name: 'type', aliases: ['category', 'interests'] },
+  months: { name: 'month', aliases: [] },
+  priceBands: { name: 'price', aliases: [] }
+};
+
+/**
+ * Price bounds check; events without a price count as free, as in the listing
+ */
+export function withinPrice(price: number | undefined, { priceMin, priceMax }: Pick<EventFilters, 'priceMin' | 'priceMax'>): boolean {
+  const amount = price ?? 0;
+  return (priceMin === undefined || amount >= priceMin) && (priceMax === undefined || amount <= priceMax);
+}
+
+function matchesFacetValue(event: FilterableEvent, facet: EventFacet, value: string, today: string): boolean {
+  switch (facet) {
+    case 'locationIds':
+      return event.locationId === value;
+    case 'typeIds':
+      return event.typeId === value;
+    case 'months': {
+      const { from, to } = monthRange(value, today);
+      return event.performances.some(({ date }) => date >= from && date <= to);
+    }
+    case 'priceBands':
+      return !!PRICE_BANDS.find(band => band.id === value)?.matches(event.price ?? 0);
+  }
+}
+
+/**
+ * Every facet and the price bounds; `except` leaves one facet out, for counting
+ */
+export function matchesEventFilters(
+  event: FilterableEvent,
+  filters: EventFilters,
+  today: string = todayIn(),
+  except?: EventFacet
+): boolean {
+  return EVENT_FACETS.every(facet => {
+    const values = filters[facet];
+    return facet === except || !values?.length || values.some(value => matchesFacetValue(event, facet, value, today));
+  }) && withinPrice(event.price, filters);
+}
+
+/**
+ * Live counts for one facet's chips: `all` with the facet cleared, and per value
+ */
+export function facetCounts(
+  events: FilterableEvent[],
+  filters: EventFilters,
+  facet: EventFacet,
+  values: string[],
+  today: string = todayIn()
+): { all: number; byValue: Record<string, number> } {
+  const reachable = events.filter(event => matchesEventFilters(event, filters, today, facet));
+  return {
+    all: reachable.length,
+    byValue: Object.fromEntries(values.map(value => [
+      value,
+      reachable.filter(event => matchesFacetValue(event, facet, value, today)).length
+    ]))
+  };
+}
+
+function resolveIds(values: string[], options?: { id: string; name: string }[]) {
+  if (!options) return values;
+  return values
+    .map(value => options.find(option => option.id === value || slugify(option.name) === slugify(value))?.id)
+    .filter((id): id is string => !!id);
+}
+
+function unique(values: string[]) {
+  const distinct = Array.from(new Set(values));
+  return distinct.length > 0 ? distinct : undefined;
+}
+
+function numberParam(params: URLSearchParams, name: string) {
+  const value = params.get(name);
+  return value !== null && value !== '' && Number.isFinite(Number(value)) ? Number(value) : undefined;
+}
+
+/**
+ * Filters from a listing URL
+ *
+ * Facets are comma-separated (`location=neubau,wieden`). With a vocabulary,
+ * display names ("Landstraße") resolve to ids and unknown values drop out;
+ * bare month numbers become their next occurrence. `sort=nearest` needs
+ * a position and is dropped without one.
+ */
+export function eventFiltersFromParams(
+  params: URLSearchParams,
+  vocabulary?: FilterVocabulary,
+  today: string = todayIn()
+): EventFilters {
+  const list = (facet: EventFacet) => {
+    const { name, aliases } = FACET_PARAMS[facet];
+    return [name, ...aliases]
+      .flatMap(param => params.getAll(param))
+      .flatMap(value => value.split(','))
+      .map(value => value.trim())
+      .filter(Boolean);
+  };
+  const userLat = numberParam(params, 'lat');
+  const userLng = numberParam(params, 'lng');
+  const hasOrigin = userLat !== undefined && userLng !== undefined;
+  const sort = eventListingSortOf(params.get('sort'));
+
+  return {
+    locationIds: unique(resolveIds(list('locationIds'), vocabulary?.locations)),
+    typeIds: unique(resolveIds(list('typeIds'), vocabulary?.eventTypes)),
+    months: unique(list('months').map(value => normalizeMonth(value, today)).filter((key): key is string => !!key)),
+    priceBands: unique(list('priceBands').filter(id => PRICE_BANDS.some(band => band.id === id))),
+    priceMin: numberParam(params, 'price_min'),
+    priceMax: numberParam(params, 'price_max'),
+    query: params.get('q') || undefined,
+    radius: hasOrigin ? numberParam(params, 'radius') : undefined,
+    userLat: hasOrigin ? userLat : undefined,
+    userLng: hasOrigin ? userLng : undefined,
+    sort: sort === 'nearest' && !hasOrigin ? undefined : sort
+  };
+}
+
+/**
+ * The URL form of `filters`, in a fixed order so equal filters give equal URLs
+ */
+export function eventFiltersToParams(filters: EventFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.query) params.set('q', filters.query);
+  EVENT_FACETS.forEach(facet => {
+    const values = filters[facet];
+    if (values?.length) params.set(FACET_PARAMS[facet].name, values.join(','));
+  });
+  if (filters.priceMin !== undefined) params.set('price_min', String(filters.priceMin));
+  if (filters.priceMax !== undefined) params.set('price_max', String(filters.priceMax));
+  if (filters.userLat !== undefined && filters.userLng !== undefined) {
+    params.set('lat', filters.userLat.toFixed(5));
+    params.set('lng', filters.userLng.toFixed(5));
+    if (filters.radius !== undefined) params.set('radius', String(filters.radius));
+  }
+  if (filters.sort) params.set('sort', filters.sort);
+  return params;
+}
@@ -0,0 +1,49 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { createFixtureDataset } from './fixtures';
+import { createMemoryRepository } from './memoryRepository';
+import { getEventPage } from './eventPages';
+
+const TODAY = '2026-10-19';
+
+async function repositoryWithPastEvent() {
+  const repository = createMemoryRepository(createFixtureDataset());
+  const [template] = await repository.events.list();
+  const past = await repository.events.create({
+    title: 'Yesterday only',
+    venue_id: template.venue_id,
+    type_id: template.type_id,
+    location_id: template.location_id,
+    date: '2026-10-18',
+    time: '00:00',
+    source: 'manual'
+  });
+  return { repository, past };
+}
+
+test('the default listing leaves out events that already happened', async () => {
+  const { repository, past } = await repositoryWithPastEvent();
+  const page = await getEventPage(repository, { filters: {}, limit: 50 }, TODAY);
+
+  assert.ok(page.events.length > 0);
+  assert.ok(page.events.every(event => event.id !== past.id));
+  assert.ok(page.events.every(event => (event.end_date ?? event.date) >= TODAY));
+});
+
+test('an explicit range still reaches into the past', async () => {
+  const { repository, past } = await repositoryWithPastEvent();
+  const page = await getEventPage(repository, { filters: {}, from: '2026-10-18', to: '2026-10-18', limit: 50 }, TODAY);
+
+  assert.ok(page.events.some(event => event.id === past.id));
+});
+
+test('facet counts cover the same upcoming window as the listing', async () => {
+  const { repository } = await repositoryWithPastEvent();
+  const listing = await getEventPage(repository, { filters: {}, limit: 1 }, TODAY);
+  const [firstMonth] = Object.keys(listing.facets?.months.byValue ?? {});
+  const picked = await getEventPage(repository, { filters: { months: [firstMonth] }, limit: 1 }, TODAY);
+
+  assert.equal(listing.facets?.months.all, listing.total);
+  assert.equal(picked.facets?.months.all, listing.total);
+  assert.equal(picked.facets?.locationIds.all, picked.total);
+});
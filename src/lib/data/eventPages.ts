@@ -0,0 +1,251 @@
+/**
+ * Cursor-paged event listings for /api/events
+ *
+ * Every listing has a total order ending in the event id, so a cursor (the
+ * sort key of the last event sent) picks up exactly where a page stopped,
+ * even when events were added or removed in between. The default soonest
+ * order is the repository's (date, time, id) order, so those pages are cut
+ * in the repository query itself (`events.page`). Search and the other
+ * orders rank on scores only known in process; they fall back to sorting
+ * the whole listing and slicing it. The first page also carries the total
+ * and the live chip counts for the listing's facets, which need every match.
+ */
+
+import type { EventFilters, EventListingSort, EventWithDetails } from '../types';
+import type { Repository } from './repository';
+import { venueDistanceKm, type EventKey, type EventQuery } from './eventQuery';
+import {
+  EVENT_FACETS,
+  EVENT_SORTS,
+  PRICE_BANDS,
+  facetCounts,
+  matchesEventFilters,
+  toFilterableEvent,
+  type EventFacet,
+  type FilterableEvent
+} from './eventFilters';
+import { adjustedVenueRating, hiddenGemScore } from './ranking';
+import { buildSearchIndex, eventSearchDocument, searchEvents } from './search';
+import { rollingMonths, todayIn } from '../utils/dates';
+
+type SortKey = (string | number)[];
+
+export interface PageCursor {
+  order: EventListingSort;
+  key: SortKey;
+}
+
+export interface EventPageRequest {
+  filters: EventFilters;
+  from?: string; // YYYY-MM-DD, as in EventQuery; unset lists from today on
+  to?: string;
+  cursor?: PageCursor; // from decodeCursor; must match eventPageOrder()
+  limit: number;
+}
+
+export type EventListing = EventWithDetails & {
+  distance_km?: number | null; // with an origin; null when the venue has no coordinates
+};
+
+export interface FacetTally {
+  all: number;
+  byValue: Record<string, number>;
+}
+
+export interface EventPage {
+  events: EventListing[];
+  nextCursor: string | null; // null on the last page
+  total?: number; // first page only, like facets
+  facets?: Record<EventFacet, FacetTally>;
+}
+
+// JSON has no Infinity; venues without coordinates sort after every real distance
+const UNKNOWN_DISTANCE = Number.MAX_VALUE;
+
+/**
+ * The order a listing actually comes in: `filters.sort`, except that
+ * relevance needs a search, and by default search hits go best first
+ */
+export function eventPageOrder(filters: EventFilters): EventListingSort {
+  const searching = !!filters.query?.trim();
+  if (filters.sort && (filters.sort !== 'relevance' || searching)) return filters.sort;
+  return searching ? 'relevance' : 'soonest';
+}
+
+function isEventKey(key: SortKey): key is EventKey {
+  return key.length === 3 && key.every(part => typeof part === 'string');
+}
+
+export function encodeCursor(cursor: PageCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * The cursor behind an opaque `cursor` param, or null when it isn't one
+ */
+export function decodeCursor(value: string): PageCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    const validOrder = EVENT_SORTS.some(option => option.id === cursor?.order);
+    const validKey = Array.isArray(cursor?.key) &&
+      cursor.key.every((part: unknown) => typeof part === 'string' || typeof part === 'number') &&
+      // Soonest keys go to the repository as they are
+      (cursor.order !== 'soonest' || isEventKey(cursor.key));
+    return validOrder && validKey ? { order: cursor.order, key: cursor.key } : null;
+  } catch {
+    return null;
+  }
+}
+
+// Part by part: numbers by value, strings as compareEvents compares them
+function compareKeys(a: SortKey, b: SortKey): number {
+  for (let index = 0; index < Math.min(a.length, b.length); index++) {
+    const [left, right] = [a[index], b[index]];
+    const order = typeof left === 'number' && typeof right === 'number'
+      ? left - right
+      : String(left).localeCompare(String(right));
+    if (order !== 0) return order;
+  }
+  return a.length - b.length;
+}
+
+// Soonest first without a search is the repository's own order
+function isKeysetOrder(filters: EventFilters): boolean {
+  return eventPageOrder(filters) === 'soonest' && !filters.query?.trim();
+}
+
+/**
+ * One page of the filtered listing, after `request.cursor` when given
+ */
+export async function getEventPage(
+  repository: Repository,
+  request: EventPageRequest,
+  today: string = todayIn()
+): Promise<EventPage> {
+  const { filters, from, to, cursor, limit } = request;
+  const origin = filters.userLat !== undefined && filters.userLng !== undefined
+    ? { lat: filters.userLat, long: filters.userLng }
+    : undefined;
+  // Upcoming unless the request sets its own range (a calendar). Picked months
+  // start today at the earliest anyway; the bound keeps the counts of the
+  // other months, and "All", to the same upcoming window.
+  const listingQuery: EventQuery = {
+    from: from ?? today,
+    to,
+    near: origin && { ...origin, radiusKm: filters.radius }
+  };
+  const withDistance = (event: EventWithDetails): EventListing =>
+    origin ? { ...event, distance_km: venueDistanceKm(event.venues, origin) } : event;
+
+  if (!isKeysetOrder(filters)) {
+    return getInProcessPage(repository, request, listingQuery, today, withDistance);
+  }
+  // Districts and types narrow the query; months and prices are checked in process
+  const page = await repository.events.page(
+    { ...listingQuery, locationIds: filters.locationIds, typeIds: filters.typeIds },
+    {
+      after: cursor?.key as EventKey | undefined,
+      size: limit,
+      matches: event => matchesEventFilters(toFilterableEvent(event), filters, today)
+    }
+  );
+  const summary = cursor ? {} : await summarize(repository, await repository.events.list(listingQuery), filters, today);
+
+  return {
+    events: page.events.map(withDistance),
+    nextCursor: page.next ? encodeCursor({ order: 'soonest', key: page.next }) : null,
+    ...summary
+  };
+}
+
+// Total and chip counts over every match, for the first page
+async function summarize(
+  repository: Repository,
+  listing: EventWithDetails[],
+  filters: EventFilters,
+  today: string
+): Promise<Pick<EventPage, 'total' | 'facets'>> {
+  const filterable = listing.map(toFilterableEvent);
+  return {
+    total: filterable.filter(event => matchesEventFilters(event, filters, today)).length,
+    facets: await countFacets(repository, filterable, filters, today)
+  };
+}
+
+// Search and score orders: sort the whole listing, then slice after the cursor
+async function getInProcessPage(
+  repository: Repository,
+  { filters, cursor, limit }: EventPageRequest,
+  listingQuery: EventQuery,
+  today: string,
+  withDistance: (event: EventWithDetails) => EventListing
+): Promise<EventPage> {
+  const origin = listingQuery.near;
+  const order = eventPageOrder(filters);
+  const listing = await repository.events.list(listingQuery);
+
+  const query = filters.query?.trim();
+  const scores = query
+    ? new Map(searchEvents(buildSearchIndex(listing.map(eventSearchDocument)), query).map(hit => [hit.id, hit.score]))
+    : null;
+  const candidates = scores ? listing.filter(event => scores.has(event.id)) : listing;
+
+  const dateKey = (event: EventWithDetails): SortKey => [event.date, event.time || '', event.id];
+  // Every order ends in the date order, so ties keep a stable place
+  const keyOf = (event: EventWithDetails): SortKey => {
+    switch (order) {
+      case 'nearest':
+        return [(origin && venueDistanceKm(event.venues, origin)) ?? UNKNOWN_DISTANCE, ...dateKey(event)];
+      case 'relevance':
+        return [-(scores?.get(event.id) || 0), ...dateKey(event)];
+      case 'price_asc':
+        return [event.price ?? 0, ...dateKey(event)];
+      case 'price_desc':
+        return [-(event.price ?? 0), ...dateKey(event)];
+      case 'rating':
+        return [-adjustedVenueRating(event.venues), ...dateKey(event)];
+      case 'hidden_gems':
+        return [-hiddenGemScore(event), ...dateKey(event)];
+      case 'soonest':
+        return dateKey(event);
+    }
+  };
+
+  const ordered = candidates
+    .filter(event => matchesEventFilters(toFilterableEvent(event), filters, today))
+    .map(event => ({ event, key: keyOf(event) }))
+    .sort((a, b) => compareKeys(a.key, b.key));
+
+  const start = cursor ? ordered.findIndex(({ key }) => compareKeys(key, cursor.key) > 0) : 0;
+  const page = start === -1 ? [] : ordered.slice(start, start + limit);
+  const last = page[page.length - 1];
+  const hasMore = start !== -1 && start + limit < ordered.length;
+
+  return {
+    events: page.map(({ event }) => withDistance(event)),
+    nextCursor: hasMore && last ? encodeCursor({ order, key: last.key }) : null,
+    ...(!cursor && await summarize(repository, candidates, filters, today))
+  };
+}
+
+async function countFacets(
+  repository: Repository,
+  events: FilterableEvent[],
+  filters: EventFilters,
+  today: string
+): Promise<Record<EventFacet, FacetTally>> {
+  const [locations, eventTypes] = await Promise.all([
+    repository.locations.list(),
+    repository.eventTypes.list()
+  ]);
+  const values: Record<EventFacet, string[]> = {
+    locationIds: locations.map(location => location.id),
+    typeIds: eventTypes.map(eventType => eventType.id),
+    months: rollingMonths(today),
+    priceBands: PRICE_BANDS.map(band => band.id)
+  };
+
+  return Object.fromEntries(
+    EVENT_FACETS.map(facet => [facet, facetCounts(events, filters, facet, values[facet], today)])
+  ) as Record<EventFacet, FacetTally>;
+}
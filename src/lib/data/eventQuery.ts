@@ -0,0 +1,140 @@
+/**
+ * Event query shape shared by every repository implementation
+ */
+
+import type { Event, EventWithDetails, Venue } from '../types';
+import { performancesOf } from './performances';
+import { monthRange, todayIn } from '../utils/dates';
+import { distanceKm, type LatLong } from '../utils/geo';
+
+export interface NearQuery extends LatLong {
+  radiusKm?: number; // only venues within it; without one, `near` just orders by distance
+}
+
+export type EventSort = 'date' | 'distance';
+
+export interface EventQuery {
+  locationId?: string;
+  typeId?: string;
+  locationIds?: string[]; // any of them
+  typeIds?: string[];
+  venueId?: string;
+  month?: string; // YYYY-MM, see resolveEventQuery
+  from?: string; // YYYY-MM-DD, inclusive; a run matches when any performance does
+  to?: string; // YYYY-MM-DD, inclusive
+  near?: NearQuery;
+  sort?: EventSort; // default 'date'; 'distance' needs `near`
+  limit?: number;
+  includeMerged?: boolean; // also return duplicates merged into a canonical event
+}
+
+/**
+ * An event's place in the listing order: date, time ('' when unset), id
+ */
+export type EventKey = [string, string, string];
+
+/**
+ * One page of `EventRepository.page`, in listing order after `after`
+ *
+ * `matches` narrows the listing further in process, for filters a query
+ * can't express; the repository keeps reading until the page is full.
+ */
+export interface EventPageQuery {
+  after?: EventKey;
+  size: number;
+  matches?: (event: EventWithDetails) => boolean;
+}
+
+export interface EventKeyPage {
+  events: EventWithDetails[];
+  next: EventKey | null; // pass as `after` for the page after; null on the last page
+}
+
+/**
+ * Month key (YYYY-MM) of a YYYY-MM-DD date string
+ */
+export function monthKeyOf(date: string): string {
+  return date.slice(0, 7);
+}
+
+/**
+ * Swap `month` for the dates it covers (from today on, for the current
+ * month), narrowed by any `from`/`to` already set. Repositories resolve
+ * every query first.
+ */
+export function resolveEventQuery(query: EventQuery, today: string = todayIn()): EventQuery {
+  if (!query.month) return query;
+
+  const range = monthRange(query.month, today);
+  return {
+    ...query,
+    month: undefined,
+    from: query.from && query.from > range.from ? query.from : range.from,
+    to: query.to && query.to < range.to ? query.to : range.to
+  };
+}
+
+/**
+ * In-process version of a resolved query, used by the memory store and for
+ * the parts of a query Postgres can't express directly (performances of a run)
+ */
+export function matchesEventQuery(event: Event, query: EventQuery): boolean {
+  if (event.merged_into && !query.includeMerged) return false;
+  if (query.locationId && event.location_id !== query.locationId) return false;
+  if (query.typeId && event.type_id !== query.typeId) return false;
+  if (query.locationIds?.length && !query.locationIds.includes(event.location_id)) return false;
+  if (query.typeIds?.length && !query.typeIds.includes(event.type_id)) return false;
+  if (query.venueId && event.venue_id !== query.venueId) return false;
+  if (!query.from && !query.to) return true;
+
+  return performancesOf(event).some(({ date }) =>
+    (!query.from || date >= query.from) &&
+    (!query.to || date <= query.to)
+  );
+}
+
+export function eventKeyOf(event: Event): EventKey {
+  return [event.date, event.time || '', event.id];
+}
+
+export function compareEventKeys(a: EventKey, b: EventKey): number {
+  return a[0].localeCompare(b[0]) || a[1].localeCompare(b[1]) || a[2].localeCompare(b[2]);
+}
+
+/**
+ * Stable listing order: date (a run's first performance), then time, then id
+ */
+export function compareEvents(a: Event, b: Event): number {
+  return compareEventKeys(eventKeyOf(a), eventKeyOf(b));
+}
+
+/**
+ * Kilometres from `origin` to a venue, null when the venue has no coordinates
+ */
+export function venueDistanceKm(venue: Pick<Venue, 'lat' | 'long'>, origin: LatLong): number | null {
+  if (venue.lat === undefined || venue.long === undefined) return null;
+  return distanceKm(origin, { lat: venue.lat, long: venue.long });
+}
+
+/**
+ * The `near` and `sort` part of a query, over a listing already in date order
+ *
+ * With a radius, venues without coordinates drop out; sorted by distance,
+ * they go last, and events at the same distance keep their date order.
+ * Takes anything with venue coordinates, so client-side lists share it.
+ */
+export function applyNearQuery<T extends { venues: Pick<Venue, 'lat' | 'long'> }>(events: T[], query: EventQuery): T[] {
+  const { near, sort } = query;
+  if (!near) return events;
+
+  const measured = events.map(event => ({ event, distance: venueDistanceKm(event.venues, near) }));
+  const inRange = near.radiusKm === undefined
+    ? measured
+    : measured.filter(({ distance }) => distance !== null && distance <= (near.radiusKm as number));
+
+  if (sort === 'distance') {
+    const far = Number.POSITIVE_INFINITY;
+    inRange.sort((a, b) => (a.distance ?? far) - (b.distance ?? far));
+  }
+  return inRange.map(({ event }) => event);
+}
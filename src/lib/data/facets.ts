@@ -0,0 +1,120 @@
+/**
+ * Quiz facet counts (locations, event types, months)
+ *
+ * Each facet is counted over the events that match every *other* selection
+ * already made, so the word clouds always reflect what the user can still
+ * reach from where they are in the quiz.
+ */
+
+import type { FacetCount } from '../types';
+import type { Repository } from './repository';
+import { monthKeyOf, type EventQuery } from './eventQuery';
+import { performancesOf } from './performances';
+import { formatMonth, monthRange, normalizeMonth, rollingMonths, todayIn } from '../utils/dates';
+
+export interface FacetFilters {
+  location?: string;
+  category?: string;
+  month?: string; // YYYY-MM
+}
+
+/**
+ * Read facet filters from the same query params the quiz store writes;
+ * bare month numbers from older links become their next occurrence
+ */
+export function facetFiltersFromParams(params: URLSearchParams): FacetFilters {
+  return {
+    location: params.get('location') || undefined,
+    category: params.get('category') || params.get('type') || undefined,
+    month: normalizeMonth(params.get('month')) ?? undefined
+  };
+}
+
+function toEventQuery({ location, category, month }: FacetFilters): EventQuery {
+  return { locationId: location, typeId: category, month };
+}
+
+// Without a chosen month, only what is still to come counts, as for months
+function upcomingQuery(filters: FacetFilters): EventQuery {
+  return { ...toEventQuery(filters), ...(!filters.month && { from: todayIn() }) };
+}
+
+function countBy<T>(items: T[], key: (item: T) => string): Map<string, number> {
+  const counts = new Map<string, number>();
+  items.forEach(item => counts.set(key(item), (counts.get(key(item)) || 0) + 1));
+  return counts;
+}
+
+/**
+ * Every location, counted within the chosen category and month, or from
+ * today on when no month is chosen
+ */
+export async function getLocationFacets(
+  repository: Repository,
+  filters: FacetFilters = {}
+): Promise<FacetCount[]> {
+  const [locations, events] = await Promise.all([
+    repository.locations.list(),
+    repository.events.list(upcomingQuery({ ...filters, location: undefined }))
+  ]);
+  const counts = countBy(events, event => event.location_id);
+
+  return locations.map(location => ({
+    id: location.id,
+    name: location.name,
+    eventCount: counts.get(location.id) || 0
+  }));
+}
+
+/**
+ * Every event type, counted within the chosen location and month, or from
+ * today on when no month is chosen
+ */
+export async function getCategoryFacets(
+  repository: Repository,
+  filters: FacetFilters = {}
+): Promise<FacetCount[]> {
+  const [eventTypes, events] = await Promise.all([
+    repository.eventTypes.list(),
+    repository.events.list(upcomingQuery({ ...filters, category: undefined }))
+  ]);
+  const counts = countBy(events, event => event.type_id);
+
+  return eventTypes.map(eventType => ({
+    id: eventType.id,
+    name: eventType.name,
+    eventCount: counts.get(eventType.id) || 0
+  }));
+}
+
+/**
+ * The next twelve months from the current one, counted within the chosen
+ * location and category; a run counts once in every month it plays
+ */
+export async function getMonthFacets(
+  repository: Repository,
+  filters: FacetFilters = {}
+): Promise<FacetCount[]> {
+  const today = todayIn();
+  const months = rollingMonths(today);
+  const to = monthRange(months[months.length - 1], today).to;
+  const events = await repository.events.list({
+    ...toEventQuery({ ...filters, month: undefined }),
+    from: today,
+    to
+  });
+  const counts = countBy(
+    events.flatMap(event => Array.from(new Set(
+      performancesOf(event)
+        .filter(({ date }) => date >= today && date <= to)
+        .map(({ date }) => monthKeyOf(date))
+    ))),
+    month => month
+  );
+
+  return months.map(month => ({
+    id: month,
+    name: formatMonth(month, 'short'),
+    eventCount: counts.get(month) || 0
+  }));
+}
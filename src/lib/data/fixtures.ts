@@ -0,0 +1,248 @@
+/**
+ * Vienna fixture data for the in-memory repository
+ *
+ * Ids of locations and event types match the quiz word-cloud ids so URLs
+ * stay readable. Events are laid out deterministically around today (two
+ * months back, ten months ahead) so every month facet has data; two of
+ * them are runs with many performances.
+ *
+ * The catalogue below (districts, event types, venues, titles, prices) is
+ * also what the seed generator in ./seed.ts draws from.
+ */
+
+import { addDays, format, nextTuesday, startOfDay } from 'date-fns';
+import type { Dataset, Row } from './repository';
+import { withRunDates } from './performances';
+
+const CREATED_AT = '2025-01-01T00:00:00.000Z';
+
+export const locations: Row<'locations'>[] = [
+  { id: 'innere-stadt', name: 'Innere Stadt', city: 'Vienna', lat: 48.2082, long: 16.3719, event_count: 0, created_at: CREATED_AT },
+  { id: 'leopoldstadt', name: 'Leopoldstadt', city: 'Vienna', lat: 48.2167, long: 16.4, event_count: 0, created_at: CREATED_AT },
+  { id: 'landstrasse', name: 'Landstraße', city: 'Vienna', lat: 48.1986, long: 16.3948, event_count: 0, created_at: CREATED_AT },
+  { id: 'wieden', name: 'Wieden', city: 'Vienna', lat: 48.1925, long: 16.3712, event_count: 0, created_at: CREATED_AT },
+  { id: 'margareten', name: 'Margareten', city: 'Vienna', lat: 48.1871, long: 16.3556, event_count: 0, created_at: CREATED_AT },
+  { id: 'mariahilf', name: 'Mariahilf', city: 'Vienna', lat: 48.1956, long: 16.3502, event_count: 0, created_at: CREATED_AT },
+  { id: 'neubau', name: 'Neubau', city: 'Vienna', lat: 48.202, long: 16.349, event_count: 0, created_at: CREATED_AT },
+  { id: 'josefstadt', name: 'Josefstadt', city: 'Vienna', lat: 48.2107, long: 16.3471, event_count: 0, created_at: CREATED_AT }
+];
+
+export const eventTypes: Row<'event_types'>[] = [
+  { id: 'opera', name: 'Opera', icon: '🎭', event_count: 0, created_at: CREATED_AT },
+  { id: 'theater', name: 'Theater', icon: '🎪', event_count: 0, created_at: CREATED_AT },
+  { id: 'classical-music', name: 'Classical Music', icon: '🎼', event_count: 0, created_at: CREATED_AT },
+  { id: 'contemporary-art', name: 'Contemporary Art', icon: '🖼️', event_count: 0, created_at: CREATED_AT },
+  { id: 'dance', name: 'Dance', icon: '🩰', event_count: 0, created_at: CREATED_AT },
+  { id: 'film', name: 'Film', icon: '🎬', event_count: 0, created_at: CREATED_AT },
+  { id: 'jazz', name: 'Jazz', icon: '🎷', event_count: 0, created_at: CREATED_AT },
+  { id: 'gallery', name: 'Gallery', icon: '🏛️', event_count: 0, created_at: CREATED_AT }
+];
+
+// Venue rows plus the event types each venue programmes
+export const venueFixtures: Array<Omit<Row<'venues'>, 'avg_rating' | 'total_reviews' | 'created_at'> & { programme: string[] }> = [
+  { id: 'venue-01', name: 'Wiener Staatsoper', slug: 'wiener-staatsoper', location_id: 'innere-stadt', type: 'opera_house', capacity: 2284, address: 'Opernring 2, 1010 Wien', city: 'Vienna', lat: 48.2030, long: 16.3690, website: 'https://www.wiener-staatsoper.at', phone: '+43 1 514442250', programme: ['opera', 'dance'] },
+  { id: 'venue-02', name: 'Burgtheater', slug: 'burgtheater', location_id: 'innere-stadt', type: 'theater', capacity: 1175, address: 'Universitätsring 2, 1010 Wien', city: 'Vienna', lat: 48.2104, long: 16.3614, website: 'https://www.burgtheater.at', phone: '+43 1 514444440', programme: ['theater'] },
+  { id: 'venue-03', name: 'Musikverein', slug: 'musikverein', location_id: 'innere-stadt', type: 'concert_hall', capacity: 1744, address: 'Musikvereinsplatz 1, 1010 Wien', city: 'Vienna', lat: 48.2005, long: 16.3724, website: 'https://www.musikverein.at', phone: '+43 1 5058190', programme: ['classical-music'] },
+  { id: 'venue-04', name: 'Porgy & Bess', slug: 'porgy-and-bess', location_id: 'innere-stadt', type: 'jazz_club', capacity: 350, address: 'Riemergasse 11, 1010 Wien', city: 'Vienna', lat: 48.2062, long: 16.3777, website: 'https://www.porgy.at', programme: ['jazz'] },
+  { id: 'venue-05', name: 'Odeon Theater', slug: 'odeon-theater', location_id: 'leopoldstadt', type: 'theater', capacity: 350, address: 'Taborstraße 10, 1020 Wien', city: 'Vienna', lat: 48.2158, long: 16.3808, website: 'https://www.odeon-theater.at', programme: ['dance', 'theater'] },
+  { id: 'venue-06', name: 'MuTh', slug: 'muth', location_id: 'leopoldstadt', type: 'concert_hall', capacity: 400, address: 'Am Augartenspitz 1, 1020 Wien', city: 'Vienna', lat: 48.2229, long: 16.3785, website: 'https://www.muth.at', programme: ['classical-music', 'jazz'] },
+  { id: 'venue-07', name: 'Konzerthaus', slug: 'konzerthaus', location_id: 'landstrasse', type: 'concert_hall', capacity: 1865, address: 'Lothringerstraße 20, 1030 Wien', city: 'Vienna', lat: 48.2013, long: 16.3790, website: 'https://konzerthaus.at', phone: '+43 1 242002', programme: ['classical-music', 'jazz'] },
+  { id: 'venue-08', name: 'Akademietheater', slug: 'akademietheater', location_id: 'landstrasse', type: 'theater', capacity: 500, address: 'Lisztstraße 1, 1030 Wien', city: 'Vienna', lat: 48.2001, long: 16.3805, website: 'https://www.burgtheater.at', programme: ['theater'] },
+  { id: 'venue-09', name: 'Wien Museum', slug: 'wien-museum', location_id: 'wieden', type: 'museum', address: 'Karlsplatz 8, 1040 Wien', city: 'Vienna', lat: 48.1990, long: 16.3720, website: 'https://www.wienmuseum.at', programme: ['gallery', 'contemporary-art'] },
+  { id: 'venue-10', name: 'Theater Akzent', slug: 'theater-akzent', location_id: 'wieden', type: 'theater', capacity: 500, address: 'Theresianumgasse 18, 1040 Wien', city: 'Vienna', lat: 48.1918, long: 16.3729, website: 'https://www.akzent.at', programme: ['theater', 'dance'] },
+  { id: 'venue-11', name: 'Filmcasino', slug: 'filmcasino', location_id: 'margareten', type: 'cinema', capacity: 300, address: 'Margaretenstraße 78, 1050 Wien', city: 'Vienna', lat: 48.1912, long: 16.3585, website: 'https://www.filmcasino.at', programme: ['film'] },
+  { id: 'venue-12', name: 'Theater an der Wien', slug: 'theater-an-der-wien', location_id: 'mariahilf', type: 'opera_house', capacity: 1000, address: 'Linke Wienzeile 6, 1060 Wien', city: 'Vienna', lat: 48.1995, long: 16.3633, website: 'https://www.theater-wien.at', programme: ['opera', 'classical-music'] },
+  { id: 'venue-13', name: 'Raimund Theater', slug: 'raimund-theater', location_id: 'mariahilf', type: 'theater', capacity: 1185, address: 'Wallgasse 18-20, 1060 Wien', city: 'Vienna', lat: 48.1931, long: 16.3430, website: 'https://www.musicalvienna.at', programme: ['theater', 'dance'] },
+  { id: 'venue-14', name: 'Volkstheater', slug: 'volkstheater', location_id: 'neubau', type: 'theater', capacity: 830, address: 'Arthur-Schnitzler-Platz 1, 1070 Wien', city: 'Vienna', lat: 48.2052, long: 16.3588, website: 'https://www.volkstheater.at', programme: ['theater'] },
+  { id: 'venue-15', name: 'mumok', slug: 'mumok', location_id: 'neubau', type: 'museum', address: 'Museumsplatz 1, 1070 Wien', city: 'Vienna', lat: 48.2036, long: 16.3575, website: 'https://www.mumok.at', programme: ['contemporary-art', 'gallery', 'film'] },
+  { id: 'venue-16', name: 'Theater in der Josefstadt', slug: 'theater-in-der-josefstadt', location_id: 'josefstadt', type: 'theater', capacity: 768, address: 'Josefstädter Straße 26, 1080 Wien', city: 'Vienna', lat: 48.2099, long: 16.3503, website: 'https://www.josefstadt.org', programme: ['theater'] },
+  { id: 'venue-17', name: 'Theater Drachengasse', slug: 'theater-drachengasse', location_id: 'innere-stadt', type: 'theater', capacity: 100, address: 'Fleischmarkt 22, 1010 Wien', city: 'Vienna', lat: 48.2106, long: 16.3775, website: 'https://www.drachengasse.at', programme: ['theater', 'contemporary-art'] }
+];
+
+export const titlesByType: Record<string, string[]> = {
+  opera: ['La Traviata', 'Don Giovanni', 'The Magic Flute', 'Carmen', 'Tosca', 'Rigoletto'],
+  theater: ['Hamlet', 'Macbeth', 'The Tempest', 'Der Talisman', 'Liliom', 'Jedermann'],
+  'classical-music': ['Vienna Philharmonic: Mahler 5', 'Beethoven Cycle', 'Schubert Lieder Evening', 'Brahms Requiem', 'Mozart Gala'],
+  'contemporary-art': ['New Positions', 'Performance Nights', 'Sound & Space'],
+  dance: ['Swan Lake', 'The Nutcracker', 'Giselle', 'Tanz Bewegung Wien'],
+  film: ['Viennale Rewind', 'Austrian Film Classics', 'Late Night Shorts'],
+  jazz: ['Late Set: Piano Trio', 'Big Band Night', 'Vienna Jazz Sessions', 'Vocal Jazz Evening'],
+  gallery: ['Klimt and His Circle', 'Vienna Around 1900', 'Photography of the City']
+};
+
+export const basePriceByType: Record<string, number> = {
+  opera: 65,
+  theater: 35,
+  'classical-music': 45,
+  'contemporary-art': 12,
+  dance: 50,
+  film: 10,
+  jazz: 25,
+  gallery: 15
+};
+
+export const startTimes = ['19:00', '19:30', '20:00', '18:30'];
+
+const users: Row<'users'>[] = Array.from({ length: 5 }, (_, i) => ({
+  id: `user-${i + 1}`,
+  email: `guest${i + 1}@example.com`,
+  subscription_tier: 'free' as const,
+  created_at: CREATED_AT
+}));
+
+/**
+ * Build a fresh dataset; `today` is injectable so tests can pin dates
+ */
+export function createFixtureDataset(today: Date = new Date()): Dataset {
+  const firstDay = addDays(startOfDay(today), -60);
+  const eventCount = 96;
+
+  const events: Row<'events'>[] = Array.from({ length: eventCount }, (_, i) => {
+    const venue = venueFixtures[i % venueFixtures.length];
+    const typeId = venue.programme[Math.floor(i / venueFixtures.length) % venue.programme.length];
+    const titles = titlesByType[typeId];
+    const date = addDays(firstDay, (i * 37) % 365);
+
+    return {
+      id: `event-${String(i + 1).padStart(3, '0')}`,
+      title: titles[(i * 7) % titles.length],
+      venue_id: venue.id,
+      type_id: typeId,
+      location_id: venue.location_id,
+      date: format(date, 'yyyy-MM-dd'),
+      time: startTimes[i % startTimes.length],
+      price: basePriceByType[typeId] + ((i * 13) % 60),
+      description: `${titles[(i * 7) % titles.length]} at ${venue.name}, one of Vienna's cultural landmarks.`,
+      ticket_url: venue.website,
+      source: 'manual',
+      created_at: CREATED_AT
+    };
+  });
+
+  // Two upcoming performances as a ticketing partner and a venue feed also
+  // list them, so there is something to merge in the duplicates admin view
+  const [listedTwice, listedThrice] = [events[2], events[3]];
+  events.push(
+    {
+      ...listedTwice,
+      id: 'event-eb-001',
+      title: `${listedTwice.title} – Tickets`,
+      description: undefined,
+      ticket_url: 'https://www.eventbrite.at/e/tickets-1000001',
+      source: 'eventbrite'
+    },
+    {
+      ...listedThrice,
+      id: 'event-eb-002',
+      title: `${listedThrice.title} (Live)`,
+      price: (listedThrice.price as number) - 5,
+      ticket_url: 'https://www.eventbrite.at/e/tickets-1000002',
+      source: 'eventbrite'
+    },
+    {
+      ...listedThrice,
+      id: 'event-ld-001',
+      time: undefined,
+      ticket_url: 'https://tickets.example.at/porgy/1000003',
+      source: 'jsonld'
+    }
+  );
+
+  // A production with a run of dated performances, and a weekly series
+  // given as a recurrence rule instead
+  const runStart = addDays(startOfDay(today), 20);
+  events.push(
+    withRunDates({
+      id: 'event-run-001',
+      title: 'Swan Lake',
+      venue_id: 'venue-01',
+      type_id: 'dance',
+      location_id: 'innere-stadt',
+      date: format(runStart, 'yyyy-MM-dd'),
+      performances: [0, 2, 5, 9, 12, 16, 19, 23, 26, 33, 40, 46].map((offset, index) => ({
+        date: format(addDays(runStart, offset), 'yyyy-MM-dd'),
+        time: index === 6 ? '14:00' : '19:30' // one matinee
+      })),
+      price: 39,
+      description: 'Tchaikovsky\'s ballet in the Vienna State Ballet\'s repertoire production.',
+      ticket_url: 'https://www.wiener-staatsoper.at',
+      source: 'manual',
+      created_at: CREATED_AT
+    }),
+    withRunDates({
+      id: 'event-run-002',
+      title: 'Vienna Jazz Sessions',
+      venue_id: 'venue-04',
+      type_id: 'jazz',
+      location_id: 'innere-stadt',
+      date: format(nextTuesday(startOfDay(today)), 'yyyy-MM-dd'),
+      time: '20:30',
+      recurrence: 'FREQ=WEEKLY;BYDAY=TU;COUNT=10',
+      price: 18,
+      description: 'Open session every Tuesday with the house trio.',
+      ticket_url: 'https://www.porgy.at',
+      source: 'manual',
+      created_at: CREATED_AT
+    })
+  );
+
+  // Reviews only for performances that already happened
+  const todayKey = format(startOfDay(today), 'yyyy-MM-dd');
+  const reviews: Row<'reviews'>[] = events
+    .filter(event => event.date < todayKey)
+    .flatMap((event, eventIndex) =>
+      Array.from({ length: (eventIndex % 3) + 1 }, (_, reviewIndex) => {
+        const rating = 5 - ((eventIndex + reviewIndex * 2) % 3);
+        return {
+          id: `review-${event.id}-${reviewIndex + 1}`,
+          user_id: users[(eventIndex + reviewIndex) % users.length].id,
+          event_id: event.id,
+          would_attend_again: rating >= 4,
+          rating,
+          review_text: rating >= 4 ? 'Wonderful evening, would go again.' : 'Good, but not quite what I hoped for.',
+          created_at: CREATED_AT
+        };
+      })
+    );
+
+  // Counters the database triggers would maintain
+  const venues: Row<'venues'>[] = venueFixtures.map(({ id, name, slug, location_id, type, capacity, address, city, lat, long, website, phone }) => {
+    const venueEventIds = new Set(events.filter(event => event.venue_id === id).map(event => event.id));
+    const ratings = reviews
+      .filter(review => venueEventIds.has(review.event_id))
+      .map(review => review.rating as number);
+
+    return {
+      id,
+      name,
+      slug,
+      location_id,
+      type,
+      capacity,
+      address,
+      city,
+      lat,
+      long,
+      website,
+      phone,
+      avg_rating: ratings.length ? ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length : 0,
+      total_reviews: ratings.length,
+      created_at: CREATED_AT
+    };
+  });
+
+  return {
+    locations: locations.map(location => ({
+      ...location,
+      event_count: events.filter(event => event.location_id === location.id).length
+    })),
+    event_types: eventTypes.map(eventType => ({
+      ...eventType,
+      event_count: events.filter(event => event.type_id === eventType.id).length
+    })),
+    venues,
+    events,
+    reviews,
+    users
+  };
+}
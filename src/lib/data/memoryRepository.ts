@@ -0,0 +1,211 @@
+/**
+ * In-memory repository for development and tests
+ *
+ * Holds one array per table and mirrors the Supabase behaviour the app relies
+ * on: joined event details, date ordering and the database-maintained
+ * counters (event_count, avg_rating, total_reviews).
+ */
+
+import type { EventWithDetails } from '../types';
+import type {
+  Dataset,
+  Insert,
+  Repository,
+  Row,
+  TableName,
+  TableRepository,
+  Update
+} from './repository';
+import {
+  applyNearQuery,
+  compareEventKeys,
+  compareEvents,
+  eventKeyOf,
+  matchesEventQuery,
+  resolveEventQuery,
+  type EventPageQuery,
+  type EventQuery
+} from './eventQuery';
+
+function createId(): string {
+  return globalThis.crypto.randomUUID();
+}
+
+function now(): string {
+  return new Date().toISOString();
+}
+
+export function createMemoryRepository(seed: Dataset): Repository {
+  // Copy so callers can't mutate the store from outside
+  const data: Dataset = {
+    locations: [...seed.locations],
+    event_types: [...seed.event_types],
+    venues: [...seed.venues],
+    events: [...seed.events],
+    reviews: [...seed.reviews],
+    users: [...seed.users]
+  };
+
+  const findRow = <T extends TableName>(table: T, id: string): Row<T> | null =>
+    (data[table] as Row<T>[]).find(row => (row as { id: string }).id === id) || null;
+
+  const updateRow = <T extends TableName>(table: T, id: string, changes: Update<T>): Row<T> => {
+    const rows = data[table] as Row<T>[];
+    const index = rows.findIndex(row => (row as { id: string }).id === id);
+    if (index === -1) {
+      throw new Error(`${table}: no row with id ${id}`);
+    }
+
+    rows[index] = { ...rows[index], ...changes };
+    return rows[index];
+  };
+
+  const table = <T extends TableName>(
+    name: T,
+    defaults: (input: Insert<T>) => Row<T>
+  ): TableRepository<T> => ({
+    list: async () => [...(data[name] as Row<T>[])],
+    get: async id => findRow(name, id),
+    create: async input => {
+      const row = defaults(input);
+      (data[name] as Row<T>[]).push(row);
+      return row;
+    },
+    update: async (id, changes) => updateRow(name, id, changes)
+  });
+
+  const withDetails = (event: Row<'events'>): EventWithDetails | null => {
+    const venue = findRow('venues', event.venue_id);
+    const eventType = findRow('event_types', event.type_id);
+    const location = findRow('locations', event.location_id);
+
+    if (!venue || !eventType || !location) {
+      console.warn(`MemoryRepository: event ${event.id} has dangling references`);
+      return null;
+    }
+
+    return { ...event, venues: venue, event_types: eventType, locations: location };
+  };
+
+  const queryEvents = (query: EventQuery = {}) => {
+    const resolved = resolveEventQuery(query);
+    const matches = applyNearQuery(
+      data.events
+        .filter(event => matchesEventQuery(event, resolved))
+        .sort(compareEvents)
+        .map(withDetails)
+        .filter((event): event is EventWithDetails => event !== null),
+      resolved
+    );
+
+    return query.limit ? matches.slice(0, query.limit) : matches;
+  };
+
+  const pageEvents = (query: EventQuery, { after, size, matches = () => true }: EventPageQuery) => {
+    const listing = queryEvents({ ...query, sort: undefined, limit: undefined })
+      .filter(event => (!after || compareEventKeys(eventKeyOf(event), after) > 0) && matches(event));
+    const events = listing.slice(0, size);
+    return {
+      events,
+      next: listing.length > size ? eventKeyOf(events[events.length - 1]) : null
+    };
+  };
+
+  // Keep the counters the database triggers would maintain
+  const bumpEventCounts = (event: Row<'events'>) => {
+    const location = findRow('locations', event.location_id);
+    if (location) updateRow('locations', location.id, { event_count: location.event_count + 1 });
+
+    const eventType = findRow('event_types', event.type_id);
+    if (eventType) updateRow('event_types', eventType.id, { event_count: eventType.event_count + 1 });
+  };
+
+  const refreshVenueRating = (eventId: string) => {
+    const event = findRow('events', eventId);
+    if (!event) return;
+
+    const eventIds = new Set(
+      data.events.filter(candidate => candidate.venue_id === event.venue_id).map(candidate => candidate.id)
+    );
+    const ratings = data.reviews
+      .filter(review => eventIds.has(review.event_id) && review.rating !== undefined)
+      .map(review => review.rating as number);
+
+    updateRow('venues', event.venue_id, {
+      avg_rating: ratings.length ? ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length : 0,
+      total_reviews: ratings.length
+    });
+  };
+
+  const venues = table('venues', input => ({
+    ...input,
+    id: createId(),
+    avg_rating: 0,
+    total_reviews: 0,
+    created_at: now()
+  }));
+
+  return {
+    locations: table('locations', input => ({
+      ...input,
+      id: createId(),
+      event_count: 0,
+      created_at: now()
+    })),
+
+    eventTypes: table('event_types', input => ({
+      ...input,
+      id: createId(),
+      event_count: 0,
+      created_at: now()
+    })),
+
+    venues: {
+      ...venues,
+      getBySlug: async slug => data.venues.find(venue => venue.slug === slug) || null
+    },
+
+    events: {
+      list: async query => queryEvents(query),
+      page: async (query, page) => pageEvents(query, page),
+      count: async query => queryEvents({ ...query, limit: undefined }).length,
+      get: async id => {
+        const event = findRow('events', id);
+        return event ? withDetails(event) : null;
+      },
+      create: async input => {
+        const event = { ...input, id: createId(), created_at: now() };
+        data.events.push(event);
+        bumpEventCounts(event);
+        return event;
+      },
+      update: async (id, changes) => updateRow('events', id, changes)
+    },
+
+    reviews: {
+      listForEvent: async eventId => data.reviews.filter(review => review.event_id === eventId),
+      listForVenue: async venueId => {
+        const eventIds = new Set(
+          data.events.filter(event => event.venue_id === venueId).map(event => event.id)
+        );
+        return data.reviews.filter(review => eventIds.has(review.event_id));
+      },
+      create: async input => {
+        const review = { ...input, id: createId(), created_at: now() };
+        data.reviews.push(review);
+        refreshVenueRating(review.event_id);
+        return review;
+      }
+    },
+
+    users: {
+      get: async id => findRow('users', id),
+      create: async input => {
+        const user = { ...input, created_at: now() };
+        data.users.push(user);
+        return user;
+      },
+      update: async (id, changes) => updateRow('users', id, changes)
+    }
+  };
+}
@@ -0,0 +1,18 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { expandRecurrence, parseRecurrence } from './performances';
+
+test('weekly rules expand BYDAY', () => {
+  const rule = parseRecurrence('FREQ=WEEKLY;BYDAY=FR,SA;COUNT=4');
+
+  assert.ok(rule);
+  assert.deepEqual(
+    expandRecurrence(rule, '2026-10-23', '19:30').map(performance => performance.date),
+    ['2026-10-23', '2026-10-24', '2026-10-30', '2026-10-31']
+  );
+});
+
+test('BYDAY on daily and monthly rules is unsupported', () => {
+  assert.equal(parseRecurrence('FREQ=MONTHLY;BYDAY=SA'), null);
+  assert.equal(parseRecurrence('FREQ=DAILY;BYDAY=MO,WE;COUNT=5'), null);
+});
@@ -0,0 +1,173 @@
+/**
+ * Productions with many performances ("runs")
+ *
+ * An event is either a single date (`date`/`time`), an explicit list of
+ * `performances`, or a `recurrence` rule expanded from its first date. Every
+ * reader goes through `performancesOf`, so the three shapes look the same.
+ * `date` and `end_date` always hold the first and last performance, which
+ * keeps date ordering and database range filters working without expanding.
+ */
+
+import { addDays, addMonths, addWeeks, addYears, format, getDate, parseISO, startOfWeek } from 'date-fns';
+import type { Event, Performance } from '../types';
+import { DEFAULT_DATE_LOCALE, formatDate, formatDateRange, type DateLocale } from '../utils/dates';
+
+type RunFields = Pick<Event, 'date' | 'time' | 'end_date' | 'performances' | 'recurrence'>;
+
+export interface RecurrenceRule {
+  freq: 'DAILY' | 'WEEKLY' | 'MONTHLY';
+  interval: number;
+  byDay: number[]; // ISO weekdays, 1 = Monday
+  count?: number;
+  until?: string; // YYYY-MM-DD, inclusive
+}
+
+// Rules without COUNT or UNTIL stop at whichever comes first
+const MAX_PERFORMANCES = 366;
+const OPEN_ENDED_YEARS = 2;
+
+const WEEKDAYS = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+/**
+ * The RFC 5545 subset venues actually publish: FREQ (daily, weekly,
+ * monthly), INTERVAL, BYDAY (weekly only), COUNT and UNTIL. Anything else
+ * is null.
+ */
+export function parseRecurrence(rule: string): RecurrenceRule | null {
+  const parts = new Map(
+    rule
+      .replace(/^RRULE:/i, '')
+      .split(';')
+      .filter(Boolean)
+      .map(part => {
+        const [key, value = ''] = part.split('=');
+        return [key.trim().toUpperCase(), value.trim().toUpperCase()] as const;
+      })
+  );
+
+  const freq = parts.get('FREQ');
+  if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY') return null;
+
+  const interval = parts.has('INTERVAL') ? Number(parts.get('INTERVAL')) : 1;
+  const count = parts.has('COUNT') ? Number(parts.get('COUNT')) : undefined;
+  const until = parts.get('UNTIL')?.match(/^(\d{4})(\d{2})(\d{2})/);
+  const byDay = (parts.get('BYDAY') || '')
+    .split(',')
+    .filter(Boolean)
+    .map(day => WEEKDAYS.indexOf(day) + 1);
+
+  if (!Number.isInteger(interval) || interval < 1) return null;
+  if (count !== undefined && (!Number.isInteger(count) || count < 1)) return null;
+  if (parts.has('UNTIL') && !until) return null;
+  if (byDay.some(day => day === 0)) return null;
+  // Daily and monthly steps don't expand by weekday
+  if (byDay.length > 0 && freq !== 'WEEKLY') return null;
+
+  return {
+    freq,
+    interval,
+    byDay: Array.from(new Set(byDay)).sort((a, b) => a - b),
+    count,
+    until: until ? `${until[1]}-${until[2]}-${until[3]}` : undefined
+  };
+}
+
+function isoWeekday(date: Date) {
+  return date.getDay() || 7;
+}
+
+/**
+ * Performances of a rule starting at `start` (YYYY-MM-DD); `start` itself
+ * counts as the first one, as in iCalendar
+ */
+export function expandRecurrence(rule: RecurrenceRule, start: string, time?: string): Performance[] {
+  const first = parseISO(start);
+  const limit = Math.min(rule.count ?? MAX_PERFORMANCES, MAX_PERFORMANCES);
+  const horizon = rule.until ?? format(addYears(first, OPEN_ENDED_YEARS), 'yyyy-MM-dd');
+  const weekdays = rule.byDay.length > 0 ? rule.byDay : [isoWeekday(first)];
+  const dates = [start];
+
+  // Weekly steps walk whole weeks from the start's Monday, the others the start itself
+  for (let step = rule.freq === 'WEEKLY' ? 0 : 1; dates.length < limit; step++) {
+    const candidates = rule.freq === 'WEEKLY'
+      ? weekdays.map(day => addDays(addWeeks(startOfWeek(first, { weekStartsOn: 1 }), step * rule.interval), day - 1))
+      : rule.freq === 'DAILY'
+        ? [addDays(first, step * rule.interval)]
+        // addMonths clamps the 31st to a shorter month's end; RFC 5545 skips that month
+        : [addMonths(first, step * rule.interval)].filter(date => getDate(date) === getDate(first));
+
+    for (const candidate of candidates.map(date => format(date, 'yyyy-MM-dd'))) {
+      if (candidate > horizon) return dates.map(date => ({ date, time }));
+      if (candidate > start && dates.length < limit) dates.push(candidate);
+    }
+  }
+
+  return dates.map(date => ({ date, time }));
+}
+
+function comparePerformances(a: Performance, b: Performance) {
+  return a.date.localeCompare(b.date) || (a.time || '').localeCompare(b.time || '');
+}
+
+/**
+ * Every performance of an event in date order; a single-date event has one
+ */
+export function performancesOf(event: RunFields): Performance[] {
+  if (event.performances?.length) {
+    return [...event.performances].sort(comparePerformances);
+  }
+
+  const rule = event.recurrence ? parseRecurrence(event.recurrence) : null;
+  if (rule) return expandRecurrence(rule, event.date, event.time);
+
+  return [{ date: event.date, time: event.time }];
+}
+
+export function isRun(event: RunFields): boolean {
+  return performancesOf(event).length > 1;
+}
+
+/**
+ * Set `date`, `time` and `end_date` from the performances, so the stored
+ * row sorts and filters by its first and last performance
+ */
+export function withRunDates<T extends RunFields>(event: T): T {
+  if (!event.performances?.length && !event.recurrence) return event;
+
+  const performances = performancesOf(event);
+  const first = performances[0];
+  const last = performances[performances.length - 1];
+
+  return {
+    ...event,
+    date: first.date,
+    time: first.time,
+    end_date: last.date !== first.date ? last.date : undefined
+  };
+}
+
+/**
+ * Performances on or after `from` (YYYY-MM-DD)
+ */
+export function upcomingPerformances(event: RunFields, from: string): Performance[] {
+  return performancesOf(event).filter(performance => performance.date >= from);
+}
+
+const RUN_LABELS: Record<DateLocale, (count: number) => string> = {
+  en: count => `${count} performances`,
+  'de-AT': count => `${count} Vorstellungen`
+};
+
+/**
+ * "March 5, 2027" for a single date, "12 performances, Mar 5 – Apr 20" for a run
+ */
+export function formatPerformances(performances: Performance[], locale: DateLocale = DEFAULT_DATE_LOCALE): string {
+  if (performances.length === 1) return formatDate(performances[0].date, 'long', locale);
+
+  const range = formatDateRange(performances[0].date, performances[performances.length - 1].date, locale);
+  return `${RUN_LABELS[locale](performances.length)}, ${range}`;
+}
+
+export function formatRunDates(event: RunFields, locale: DateLocale = DEFAULT_DATE_LOCALE): string {
+  return formatPerformances(performancesOf(event), locale);
+}
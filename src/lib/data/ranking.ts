@@ -0,0 +1,124 @@
+/**
+ * Taste-based ordering of event results
+ *
+ * Scores each event against the taste quiz answers (QuizResponses) and sorts
+ * best match first. Events that score the same keep their incoming order,
+ * so with no answers the list is unchanged.
+ */
+
+import type { EventListingSort, EventWithDetails, QuizResponses, Venue } from '../types';
+import { TASTE_STEPS, type TasteResponseKey } from '../quiz/taste';
+
+// Upper capacity bounds for each venue size answer
+const VENUE_SIZE_CAPACITY = { intimate: 400, medium: 1200 };
+
+// Upper ticket price bounds (EUR) for each budget answer
+const BUDGET_PRICE = { low: 30, medium: 70 };
+
+export function venueSizeOf(capacity?: number): QuizResponses['venue_size'] {
+  if (capacity === undefined) return undefined;
+  if (capacity <= VENUE_SIZE_CAPACITY.intimate) return 'intimate';
+  if (capacity <= VENUE_SIZE_CAPACITY.medium) return 'medium';
+  return 'large';
+}
+
+export function budgetOf(price?: number): QuizResponses['budget'] {
+  if (price === undefined) return undefined;
+  if (price <= BUDGET_PRICE.low) return 'low';
+  if (price <= BUDGET_PRICE.medium) return 'medium';
+  return 'high';
+}
+
+function keywordMatches(event: EventWithDetails, key: TasteResponseKey, selected: string[] = []): number {
+  const step = TASTE_STEPS.find(definition => definition.responseKey === key);
+  if (!step || selected.length === 0) return 0;
+
+  const text = `${event.title} ${event.description || ''} ${event.type_id}`.toLowerCase();
+  return step.options
+    .filter(option => selected.includes(option.id))
+    .filter(option => option.keywords?.some(keyword => text.includes(keyword)))
+    .length;
+}
+
+/**
+ * Few reviews but well liked, and not in a big house
+ */
+export function isHiddenGem(event: EventWithDetails): boolean {
+  const venue = event.venues;
+  return venueSizeOf(venue.capacity) !== 'large'
+    && venue.total_reviews <= 10
+    && (venue.total_reviews === 0 || venue.avg_rating >= 4);
+}
+
+// Venue ratings are pulled towards this until a venue has a few reviews
+const PRIOR_RATING = 3.5;
+const PRIOR_REVIEWS = 3;
+
+/**
+ * A venue's average rating weighed by how many reviews it rests on, so one
+ * five-star review doesn't outrank a dozen four-star ones
+ */
+export function adjustedVenueRating(venue: Pick<Venue, 'avg_rating' | 'total_reviews'>): number {
+  return (venue.avg_rating * venue.total_reviews + PRIOR_RATING * PRIOR_REVIEWS) / (venue.total_reviews + PRIOR_REVIEWS);
+}
+
+/**
+ * Continuous version of isHiddenGem for the "hidden gems" listing order:
+ * gems first, then a well-rated venue that is small and little reviewed
+ * beats one that is only one of those. Between 0 and 2.
+ */
+export function hiddenGemScore(event: EventWithDetails): number {
+  const venue = event.venues;
+  const rating = adjustedVenueRating(venue) / 5;
+  const small = 1 / (1 + (venue.capacity ?? VENUE_SIZE_CAPACITY.medium) / VENUE_SIZE_CAPACITY.intimate);
+  const obscure = 1 / (1 + venue.total_reviews / 10);
+
+  return (isHiddenGem(event) ? 1 : 0) + rating * (small + obscure) / 2;
+}
+
+/**
+ * Listing order that matches the discovery answer, when it implies one
+ */
+export function preferredSort(responses: QuizResponses = {}): EventListingSort | undefined {
+  if (responses.discovery_mode === 'hidden_gems') return 'hidden_gems';
+  if (responses.discovery_mode === 'popular') return 'rating';
+  return undefined;
+}
+
+/**
+ * How well one event fits the taste answers; 0 means no signal either way
+ */
+export function scoreEventForTaste(event: EventWithDetails, responses: QuizResponses): number {
+  let score = 0;
+
+  score += 3 * Math.min(keywordMatches(event, 'genres', responses.genres), 1);
+  score += 2 * Math.min(keywordMatches(event, 'era', responses.era), 1);
+
+  const size = venueSizeOf(event.venues.capacity);
+  if (responses.venue_size && size) {
+    score += size === responses.venue_size ? 2 : 0;
+  }
+
+  const budget = budgetOf(event.price);
+  if (responses.budget && budget) {
+    if (budget === responses.budget) score += 2;
+    // Over budget is worse than under it
+    else if (responses.budget === 'low' || (responses.budget === 'medium' && budget === 'high')) score -= 1;
+  }
+
+  if (responses.discovery_mode === 'popular') {
+    score += event.venues.avg_rating >= 4 ? 1 : 0;
+    score += event.venues.total_reviews >= 10 ? 1 : 0;
+  } else if (responses.discovery_mode === 'hidden_gems') {
+    score += isHiddenGem(event) ? 2 : 0;
+  }
+
+  return score;
+}
+
+export function rankEventsByTaste(events: EventWithDetails[], responses: QuizResponses = {}): EventWithDetails[] {
+  return events
+    .map((event, index) => ({ event, index, score: scoreEventForTaste(event, responses) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ event }) => event);
+}
@@ -0,0 +1,112 @@
+/**
+ * Typed data-access layer for the Cultural Events Platform
+ *
+ * Every table in `Database['public']['Tables']` gets a small repository.
+ * Pages and components talk to `getRepository()` and never to Supabase
+ * directly, so the same code runs against the in-memory store (dev, tests)
+ * and Supabase (production).
+ */
+
+import type { Database, EventWithDetails, Review } from '../types';
+import type { EventKeyPage, EventPageQuery, EventQuery } from './eventQuery';
+import { createMemoryRepository } from './memoryRepository';
+import { createSupabaseRepository } from './supabaseRepository';
+import { createFixtureDataset } from './fixtures';
+import { supabase } from '../supabase';
+
+type Tables = Database['public']['Tables'];
+
+export type TableName = keyof Tables;
+export type Row<T extends TableName> = Tables[T]['Row'];
+export type Insert<T extends TableName> = Tables[T]['Insert'];
+export type Update<T extends TableName> = Tables[T]['Update'];
+
+/**
+ * Full contents of the store, one array of rows per table
+ */
+export type Dataset = { [T in TableName]: Row<T>[] };
+
+export interface TableRepository<T extends TableName> {
+  list: () => Promise<Row<T>[]>;
+  get: (id: string) => Promise<Row<T> | null>;
+  create: (input: Insert<T>) => Promise<Row<T>>;
+  update: (id: string, changes: Update<T>) => Promise<Row<T>>;
+}
+
+export interface VenueRepository extends TableRepository<'venues'> {
+  getBySlug: (slug: string) => Promise<Row<'venues'> | null>;
+}
+
+export interface EventRepository {
+  list: (query?: EventQuery) => Promise<EventWithDetails[]>;
+  // Keyset-paged listing in date order; `query.sort` and `query.limit` don't apply
+  page: (query: EventQuery, page: EventPageQuery) => Promise<EventKeyPage>;
+  count: (query?: EventQuery) => Promise<number>;
+  get: (id: string) => Promise<EventWithDetails | null>;
+  create: (input: Insert<'events'>) => Promise<Row<'events'>>;
+  update: (id: string, changes: Update<'events'>) => Promise<Row<'events'>>;
+}
+
+export interface ReviewRepository {
+  listForEvent: (eventId: string) => Promise<Review[]>;
+  listForVenue: (venueId: string) => Promise<Review[]>;
+  create: (input: Insert<'reviews'>) => Promise<Row<'reviews'>>;
+}
+
+export interface UserRepository {
+  get: (id: string) => Promise<Row<'users'> | null>;
+  create: (input: Insert<'users'>) => Promise<Row<'users'>>;
+  update: (id: string, changes: Update<'users'>) => Promise<Row<'users'>>;
+}
+
+export interface Repository {
+  locations: TableRepository<'locations'>;
+  eventTypes: TableRepository<'event_types'>;
+  venues: VenueRepository;
+  events: EventRepository;
+  reviews: ReviewRepository;
+  users: UserRepository;
+}
+
+export type DataSource = 'memory' | 'supabase';
+
+/**
+ * NEXT_PUBLIC_DATA_SOURCE wins; otherwise Supabase when it is configured,
+ * and always the memory store under test
+ */
+export function resolveDataSource(): DataSource {
+  const configured = process.env.NEXT_PUBLIC_DATA_SOURCE;
+  if (configured === 'memory' || configured === 'supabase') return configured;
+  if (process.env.NODE_ENV === 'test') return 'memory';
+  return process.env.NEXT_PUBLIC_SUPABASE_URL ? 'supabase' : 'memory';
+}
+
+// Kept on globalThis: Next bundles route handlers and pages separately, and
+// a module-level instance would give each its own copy of the memory store
+const shared = globalThis as typeof globalThis & { __eventRepository?: Repository };
+
+/**
+ * The dataset `npm run seed:events` wrote to data/seed.json, if any
+ *
+ * next.config.js resolves `@seed-dataset` to that file, or to an empty module
+ * without it, so the server and the browser load the same rows. A new file
+ * is picked up when the dev server restarts.
+ */
+function seededDataset(): Dataset | null {
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  const seeded = require('@seed-dataset') as Partial<Dataset>;
+  return Array.isArray(seeded.events) ? (seeded as Dataset) : null;
+}
+
+/**
+ * Shared repository for the current environment
+ */
+export function getRepository(): Repository {
+  if (!shared.__eventRepository) {
+    shared.__eventRepository = resolveDataSource() === 'supabase'
+      ? createSupabaseRepository(supabase)
+      : createMemoryRepository(seededDataset() ?? createFixtureDataset());
+  }
+
+  return shared.__eventRepository;
+}
@@ -0,0 +1,30 @@
+/**
+ * Review aggregates for venue and event pages
+ */
+
+import type { Review } from '../types';
+
+export interface ReviewSummary {
+  totalReviews: number;
+  ratedReviews: number; // rating is optional on a review
+  avgRating: number | null; // 1-5, one decimal
+  wouldAttendAgainPercent: number | null; // 0-100, whole percent
+}
+
+export function summarizeReviews(reviews: Review[]): ReviewSummary {
+  const ratings = reviews
+    .map(review => review.rating)
+    .filter((rating): rating is number => typeof rating === 'number');
+  const attendAgain = reviews.filter(review => review.would_attend_again).length;
+
+  return {
+    totalReviews: reviews.length,
+    ratedReviews: ratings.length,
+    avgRating: ratings.length > 0
+      ? Math.round((ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length) * 10) / 10
+      : null,
+    wouldAttendAgainPercent: reviews.length > 0
+      ? Math.round((attendAgain / reviews.length) * 100)
+      : null
+  };
+}
@@ -0,0 +1,167 @@
+/**
+ * In-process full-text search over events
+ *
+ * Titles, descriptions, venue, district and type names are split into
+ * words and folded with `slugify`, then once more so that umlauts match
+ * however they are typed: "Landstraße", "Landstrasse" and "landstrase"
+ * (one typo) all find Landstraße; "Wahring", "Waehring" and "Währing" are
+ * the same word. Every query word has to match some word of an event,
+ * exactly, as a prefix (so results follow typing) or within a small edit
+ * distance. The catalogue is a few thousand events at most, so the index is
+ * a plain vocabulary map rebuilt whenever the listing loads.
+ */
+
+import type { EventWithDetails } from '../types';
+import { slugify } from '../utils/slug';
+
+export interface SearchDocument {
+  id: string;
+  title: string;
+  description?: string;
+  venue: string;
+  district: string;
+  type: string;
+}
+
+export interface SearchHit {
+  id: string;
+  score: number;
+}
+
+type SearchField = Exclude<keyof SearchDocument, 'id'>;
+
+// A title hit outranks the same word in a description
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 3,
+  venue: 2,
+  district: 2,
+  type: 1.5,
+  description: 1
+};
+
+const MATCH_WEIGHTS = { exact: 1, prefix: 0.8, fuzzy: 0.6 };
+
+const MIN_PREFIX_LENGTH = 2;
+
+interface Posting {
+  id: string;
+  weight: number; // best field weight of the word in this document
+}
+
+export interface SearchIndex {
+  vocabulary: Map<string, Posting[]>;
+}
+
+/**
+ * Words of a text, lowercase ASCII, with ä/ae, ö/oe, ü/ue and ß/ss folded together
+ */
+export function searchTerms(text: string): string[] {
+  return slugify(text)
+    .replace(/ae/g, 'a')
+    .replace(/oe/g, 'o')
+    .replace(/ue/g, 'u')
+    .split('-')
+    .filter(Boolean);
+}
+
+export function eventSearchDocument(event: EventWithDetails): SearchDocument {
+  return {
+    id: event.id,
+    title: event.title,
+    description: event.description,
+    venue: event.venues.name,
+    district: event.locations.name,
+    type: event.event_types.name
+  };
+}
+
+export function buildSearchIndex(documents: SearchDocument[]): SearchIndex {
+  const vocabulary = new Map<string, Posting[]>();
+
+  documents.forEach(document => {
+    const best = new Map<string, number>();
+    (Object.keys(FIELD_WEIGHTS) as SearchField[]).forEach(field => {
+      searchTerms(document[field] || '').forEach(term => {
+        best.set(term, Math.max(best.get(term) || 0, FIELD_WEIGHTS[field]));
+      });
+    });
+
+    best.forEach((weight, term) => {
+      vocabulary.set(term, [...(vocabulary.get(term) || []), { id: document.id, weight }]);
+    });
+  });
+
+  return { vocabulary };
+}
+
+// Typos allowed for a query word of this length: none for short words
+function allowedEdits(length: number) {
+  if (length < 4) return 0;
+  return length < 8 ? 1 : 2;
+}
+
+/**
+ * Optimal string alignment distance (adjacent swaps count once),
+ * giving up as soon as it must exceed `max`
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(row[j] + 1, current[j - 1] + 1, row[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousRow[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    previousRow = row;
+    row = current;
+  }
+  return row[b.length];
+}
+
+function matchWeight(queryTerm: string, term: string): number {
+  if (term === queryTerm) return MATCH_WEIGHTS.exact;
+  if (queryTerm.length >= MIN_PREFIX_LENGTH && term.startsWith(queryTerm)) return MATCH_WEIGHTS.prefix;
+
+  const edits = allowedEdits(queryTerm.length);
+  if (edits === 0) return 0;
+  // A typo inside a word still being typed: compare against its start
+  const candidate = term.length > queryTerm.length ? term.slice(0, queryTerm.length) : term;
+  const distance = Math.min(editDistance(queryTerm, term, edits), editDistance(queryTerm, candidate, edits));
+  return distance <= edits ? MATCH_WEIGHTS.fuzzy : 0;
+}
+
+/**
+ * Events matching every word of `query`, best first; an empty query matches nothing
+ */
+export function searchEvents(index: SearchIndex, query: string): SearchHit[] {
+  const queryTerms = Array.from(new Set(searchTerms(query)));
+  if (queryTerms.length === 0) return [];
+
+  const perTerm = queryTerms.map(queryTerm => {
+    const termScores = new Map<string, number>();
+    index.vocabulary.forEach((postings, term) => {
+      const weight = matchWeight(queryTerm, term);
+      if (weight === 0) return;
+      postings.forEach(posting => {
+        termScores.set(posting.id, Math.max(termScores.get(posting.id) || 0, weight * posting.weight));
+      });
+    });
+    return termScores;
+  });
+
+  const [first, ...rest] = perTerm;
+  return Array.from(first.entries())
+    .filter(([id]) => rest.every(termScores => termScores.has(id)))
+    .map(([id, score]) => ({ id, score: rest.reduce((total, termScores) => total + (termScores.get(id) as number), score) }))
+    .sort((a, b) => b.score - a.score || a.id.localeCompare(b.id));
+}
@@ -0,0 +1,305 @@
+/**
+ * Deterministic seed data generator
+ *
+ * The same options always produce the same rows, so a seeded database can be
+ * rebuilt exactly. Rows are `Insert` shapes whose foreign keys hold seed keys
+ * (location id, event type id, venue slug, event/user key); writeSeedData
+ * swaps them for the ids the target store hands out.
+ */
+
+import { addDays, addMonths, differenceInCalendarDays, format, parseISO, startOfDay } from 'date-fns';
+import type { Dataset, Insert, Repository, Row, TableName } from './repository';
+import {
+  basePriceByType,
+  eventTypes,
+  locations,
+  startTimes,
+  titlesByType,
+  venueFixtures
+} from './fixtures';
+
+export interface SeedOptions {
+  seed: number;
+  eventCount: number;
+  from: string; // YYYY-MM-DD, inclusive
+  to: string; // YYYY-MM-DD, inclusive
+  today: string; // YYYY-MM-DD; only earlier events get reviews
+  userCount: number;
+}
+
+export interface SeedRow<T extends TableName> {
+  key: string;
+  row: Insert<T>;
+}
+
+export type SeedData = { [T in TableName]: SeedRow<T>[] };
+
+export type SeedSummary = Record<TableName, number>;
+
+/**
+ * Twelve months starting two months back, so past events have reviews and
+ * every month facet has data
+ */
+export function defaultSeedOptions(today: Date = new Date()): SeedOptions {
+  const from = addMonths(startOfDay(today), -2);
+
+  return {
+    seed: 1,
+    eventCount: 120,
+    from: format(from, 'yyyy-MM-dd'),
+    to: format(addDays(addMonths(from, 12), -1), 'yyyy-MM-dd'),
+    today: format(today, 'yyyy-MM-dd'),
+    userCount: 12
+  };
+}
+
+/**
+ * mulberry32 – tiny, fast and plenty for fixture data
+ */
+export function createRandom(seed: number) {
+  let state = seed >>> 0;
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const int = (min: number, max: number) => min + Math.floor(next() * (max - min + 1));
+
+  return {
+    next,
+    int,
+    pick: <T>(items: readonly T[]): T => items[int(0, items.length - 1)],
+    shuffle: <T>(items: readonly T[]): T[] => {
+      const copy = [...items];
+      for (let i = copy.length - 1; i > 0; i--) {
+        const j = int(0, i);
+        [copy[i], copy[j]] = [copy[j], copy[i]];
+      }
+      return copy;
+    },
+    // users.id is a uuid in Supabase, so seeded users need real-looking ones
+    uuid: () => {
+      const hex = Array.from({ length: 32 }, () => int(0, 15).toString(16));
+      hex[12] = '4';
+      hex[16] = '89ab'[int(0, 3)];
+      const id = hex.join('');
+      return `${id.slice(0, 8)}-${id.slice(8, 12)}-${id.slice(12, 16)}-${id.slice(16, 20)}-${id.slice(20)}`;
+    }
+  };
+}
+
+const reviewTexts = {
+  good: [
+    'Wonderful evening, would go again.',
+    'Stunning production – the acoustics alone are worth it.',
+    'Great seats for the price, and a lovely crowd.',
+    'Exactly what I hoped for. Already looking for the next date.'
+  ],
+  mixed: [
+    'Good, but not quite what I hoped for.',
+    'Beautiful venue, uneven performance.',
+    'The second half dragged a little.',
+    'Fine evening, though the view from our seats was limited.'
+  ]
+};
+
+// Skewed towards the good end, like real reviews
+const ratings = [3, 4, 4, 5, 5, 5, 2];
+
+export function generateSeedData(options: SeedOptions): SeedData {
+  const random = createRandom(options.seed);
+  const firstDay = parseISO(options.from);
+  const span = differenceInCalendarDays(parseISO(options.to), firstDay);
+  if (Number.isNaN(span) || span < 0) {
+    throw new Error(`Seed: invalid date range ${options.from} – ${options.to}`);
+  }
+
+  const users: SeedRow<'users'>[] = Array.from({ length: options.userCount }, (_, i) => {
+    const id = random.uuid();
+    return {
+      key: id,
+      row: {
+        id,
+        email: `guest${i + 1}@example.com`,
+        subscription_tier: random.pick(['free', 'free', 'free', 'basic', 'premium'] as const)
+      }
+    };
+  });
+
+  const events: SeedRow<'events'>[] = Array.from({ length: options.eventCount }, (_, i) => {
+    const venue = random.pick(venueFixtures);
+    const typeId = random.pick(venue.programme);
+    const title = random.pick(titlesByType[typeId]);
+
+    return {
+      key: `event-${String(i + 1).padStart(4, '0')}`,
+      row: {
+        title,
+        venue_id: venue.slug,
+        type_id: typeId,
+        location_id: venue.location_id,
+        date: format(addDays(firstDay, random.int(0, span)), 'yyyy-MM-dd'),
+        time: random.pick(startTimes),
+        price: basePriceByType[typeId] + random.int(0, 12) * 5,
+        description: `${title} at ${venue.name}, one of Vienna's cultural landmarks.`,
+        ticket_url: venue.website,
+        source: 'seed'
+      }
+    };
+  });
+
+  const reviews: SeedRow<'reviews'>[] = events
+    .filter(event => event.row.date < options.today)
+    .flatMap(event =>
+      random.shuffle(users)
+        .slice(0, random.int(0, Math.min(4, users.length)))
+        .map((user, i) => {
+          const rating = random.pick(ratings);
+          return {
+            key: `${event.key}-review-${i + 1}`,
+            row: {
+              user_id: user.key,
+              event_id: event.key,
+              rating,
+              would_attend_again: rating >= 4,
+              review_text: random.pick(rating >= 4 ? reviewTexts.good : reviewTexts.mixed)
+            }
+          };
+        })
+    );
+
+  return {
+    locations: locations.map(({ id, name, city, lat, long }) => ({
+      key: id,
+      row: { name, city, lat, long }
+    })),
+    event_types: eventTypes.map(({ id, name, icon }) => ({
+      key: id,
+      row: { name, icon }
+    })),
+    venues: venueFixtures.map(({ name, slug, location_id, type, capacity, address, city, lat, long, website, phone }) => ({
+      key: slug,
+      row: { name, slug, location_id, type, capacity, address, city, lat, long, website, phone }
+    })),
+    events,
+    users,
+    reviews
+  };
+}
+
+function resolveKey(ids: Map<string, string>, key: string, context: string): string {
+  const id = ids.get(key);
+  if (!id) {
+    throw new Error(`Seed: ${context} refers to unknown key ${key}`);
+  }
+  return id;
+}
+
+/**
+ * Insert seed data through a repository, parents first
+ */
+export async function writeSeedData(repository: Repository, data: SeedData): Promise<SeedSummary> {
+  const ids = {
+    locations: new Map<string, string>(),
+    event_types: new Map<string, string>(),
+    venues: new Map<string, string>(),
+    events: new Map<string, string>(),
+    users: new Map<string, string>()
+  };
+
+  for (const { key, row } of data.locations) {
+    ids.locations.set(key, (await repository.locations.create(row)).id);
+  }
+  for (const { key, row } of data.event_types) {
+    ids.event_types.set(key, (await repository.eventTypes.create(row)).id);
+  }
+  for (const { key, row } of data.venues) {
+    const venue = await repository.venues.create({
+      ...row,
+      location_id: resolveKey(ids.locations, row.location_id, `venue ${key}`)
+    });
+    ids.venues.set(key, venue.id);
+  }
+  for (const { key, row } of data.events) {
+    const event = await repository.events.create({
+      ...row,
+      venue_id: resolveKey(ids.venues, row.venue_id, `event ${key}`),
+      type_id: resolveKey(ids.event_types, row.type_id, `event ${key}`),
+      location_id: resolveKey(ids.locations, row.location_id, `event ${key}`)
+    });
+    ids.events.set(key, event.id);
+  }
+  for (const { key, row } of data.users) {
+    ids.users.set(key, (await repository.users.create(row)).id);
+  }
+  for (const { key, row } of data.reviews) {
+    await repository.reviews.create({
+      ...row,
+      user_id: resolveKey(ids.users, row.user_id, `review ${key}`),
+      event_id: resolveKey(ids.events, row.event_id, `review ${key}`)
+    });
+  }
+
+  return summarizeSeedData(data);
+}
+
+export function summarizeSeedData(data: SeedData): SeedSummary {
+  return {
+    locations: data.locations.length,
+    event_types: data.event_types.length,
+    venues: data.venues.length,
+    events: data.events.length,
+    users: data.users.length,
+    reviews: data.reviews.length
+  };
+}
+
+/**
+ * Full rows for the memory store / JSON file: seed keys become ids and the
+ * counters the database triggers maintain are filled in
+ */
+export function toSeedDataset(data: SeedData, createdAt: string = new Date().toISOString()): Dataset {
+  const events: Row<'events'>[] = data.events.map(({ key, row }) => ({ ...row, id: key, created_at: createdAt }));
+  const reviews: Row<'reviews'>[] = data.reviews.map(({ key, row }) => ({ ...row, id: key, created_at: createdAt }));
+
+  const countBy = (field: 'location_id' | 'type_id', id: string) =>
+    events.filter(event => event[field] === id).length;
+
+  return {
+    locations: data.locations.map(({ key, row }) => ({
+      ...row,
+      id: key,
+      event_count: countBy('location_id', key),
+      created_at: createdAt
+    })),
+    event_types: data.event_types.map(({ key, row }) => ({
+      ...row,
+      id: key,
+      event_count: countBy('type_id', key),
+      created_at: createdAt
+    })),
+    venues: data.venues.map(({ key, row }) => {
+      const eventIds = new Set(events.filter(event => event.venue_id === key).map(event => event.id));
+      const venueRatings = reviews
+        .filter(review => eventIds.has(review.event_id) && review.rating !== undefined)
+        .map(review => review.rating as number);
+
+      return {
+        ...row,
+        id: key,
+        avg_rating: venueRatings.length
+          ? venueRatings.reduce((sum, rating) => sum + rating, 0) / venueRatings.length
+          : 0,
+        total_reviews: venueRatings.length,
+        created_at: createdAt
+      };
+    }),
+    events,
+    reviews,
+    users: data.users.map(({ row }) => ({ ...row, created_at: createdAt }))
+  };
+}
@@ -0,0 +1,224 @@
+/**
+ * Supabase-backed repository (production)
+ *
+ * Row shapes come from `Database` in types.ts; the client itself stays
+ * untyped, so results are narrowed here at the boundary. Postgres hands
+ * back null for every empty column, where the row types leave the field
+ * out, so nulls inside rows become undefined on the way in.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { EventWithDetails, Review } from '../types';
+import type {
+  Insert,
+  Repository,
+  Row,
+  TableName,
+  TableRepository,
+  Update
+} from './repository';
+import {
+  applyNearQuery,
+  eventKeyOf,
+  matchesEventQuery,
+  resolveEventQuery,
+  type EventKey,
+  type EventPageQuery,
+  type EventQuery
+} from './eventQuery';
+import { boundingBox } from '../utils/geo';
+
+const EVENT_WITH_DETAILS = '*, venues(*), event_types(*), locations(*)';
+// Inner join, so a radius can filter on the venue's coordinates
+const EVENT_WITH_VENUE_FILTER = '*, venues!inner(*), event_types(*), locations(*)';
+
+interface SupabaseResult {
+  data: unknown;
+  error: { message: string } | null;
+}
+
+// Nested too: joined venues and JSON columns come back the same way
+function withoutNulls(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(withoutNulls);
+  if (typeof value !== 'object' || value === null) return value;
+  return Object.fromEntries(
+    Object.entries(value).map(([key, field]) => [key, field === null ? undefined : withoutNulls(field)])
+  );
+}
+
+// The other way round: JSON drops undefined, so a field set to undefined
+// would stay as it was instead of being cleared
+function withNulls<T extends object>(changes: T): T {
+  return Object.fromEntries(
+    Object.entries(changes).map(([key, field]) => [key, field === undefined ? null : field])
+  ) as T;
+}
+
+function unwrap<T>(context: string, { data, error }: SupabaseResult): T {
+  if (error) {
+    throw new Error(`Supabase ${context} failed: ${error.message}`);
+  }
+  // A missing row stays null, as get() promises
+  return withoutNulls(data) as T;
+}
+
+export function createSupabaseRepository(client: SupabaseClient): Repository {
+  const table = <T extends TableName>(name: T): TableRepository<T> => ({
+    list: async () =>
+      unwrap<Row<T>[]>(`${name}.list`, await client.from(name).select('*')),
+    get: async id =>
+      unwrap<Row<T> | null>(`${name}.get`, await client.from(name).select('*').eq('id', id).maybeSingle()),
+    create: async input =>
+      unwrap<Row<T>>(`${name}.create`, await client.from(name).insert(input).select().single()),
+    update: async (id, changes: Update<T>) =>
+      unwrap<Row<T>>(`${name}.update`, await client.from(name).update(withNulls(changes)).eq('id', id).select().single())
+  });
+
+  const selectEvents = (query: EventQuery = {}) => {
+    const radius = query.near?.radiusKm !== undefined ? query.near : null;
+    let request = client
+      .from('events')
+      .select(radius ? EVENT_WITH_VENUE_FILTER : EVENT_WITH_DETAILS)
+      .order('date', { ascending: true })
+      // Untimed events first, as compareEvents orders them, so keyset pages line up
+      .order('time', { ascending: true, nullsFirst: true })
+      .order('id', { ascending: true });
+
+    if (!query.includeMerged) request = request.is('merged_into', null);
+    if (query.locationId) request = request.eq('location_id', query.locationId);
+    if (query.typeId) request = request.eq('type_id', query.typeId);
+    if (query.venueId) request = request.eq('venue_id', query.venueId);
+    if (query.locationIds?.length) request = request.in('location_id', query.locationIds);
+    if (query.typeIds?.length) request = request.in('type_id', query.typeIds);
+    // date/end_date bound a run, so these keep every run overlapping the range
+    if (query.from) request = request.or(`date.gte.${query.from},end_date.gte.${query.from}`);
+    if (query.to) request = request.lte('date', query.to);
+    // Box around the radius; the exact distance is checked after fetching
+    if (radius) {
+      const box = boundingBox(radius, radius.radiusKm as number);
+      request = request
+        .gte('venues.lat', box.minLat)
+        .lte('venues.lat', box.maxLat)
+        .gte('venues.long', box.minLong)
+        .lte('venues.long', box.maxLong);
+    }
+
+    return request;
+  };
+
+  // A run overlapping the range may still have no performance inside it,
+  // so ranges are checked again after fetching; distance is exact only here
+  const listEvents = async (query: EventQuery = {}) => {
+    const resolved = resolveEventQuery(query);
+    const rows = unwrap<EventWithDetails[]>('events.list', await selectEvents(resolved));
+    const matches = applyNearQuery(
+      resolved.from || resolved.to ? rows.filter(event => matchesEventQuery(event, resolved)) : rows,
+      resolved
+    );
+    return query.limit ? matches.slice(0, query.limit) : matches;
+  };
+
+  // Rows after `key` in (date, time, id) order; untimed rows come first within a day
+  const afterKey = ([date, time, id]: EventKey) => {
+    const sameDay = time
+      ? [`and(date.eq.${date},time.gt."${time}")`, `and(date.eq.${date},time.eq."${time}",id.gt.${id})`]
+      : [`and(date.eq.${date},time.not.is.null)`, `and(date.eq.${date},time.is.null,id.gt.${id})`];
+    return [`date.gt.${date}`, ...sameDay].join(',');
+  };
+
+  // Pages are cut in Postgres: each read takes the next size + 1 rows after
+  // the last one read. Rows the checks after fetching drop (runs, radius,
+  // `matches`) are made up by reading on, so a page is only short at the end.
+  const pageEvents = async (query: EventQuery, { after, size, matches = () => true }: EventPageQuery) => {
+    const resolved = resolveEventQuery({ ...query, sort: undefined, limit: undefined });
+    const events: EventWithDetails[] = [];
+    let cursor = after;
+
+    for (;;) {
+      let request = selectEvents(resolved);
+      if (cursor) request = request.or(afterKey(cursor));
+      const rows = unwrap<EventWithDetails[]>('events.page', await request.limit(size + 1));
+      const kept = new Set(applyNearQuery(rows.filter(event => matchesEventQuery(event, resolved)), resolved));
+
+      for (const row of rows) {
+        if (!kept.has(row) || !matches(row)) continue;
+        if (events.length === size) return { events, next: eventKeyOf(events[size - 1]) };
+        events.push(row);
+      }
+      if (rows.length <= size) return { events, next: null };
+      cursor = eventKeyOf(rows[rows.length - 1]);
+    }
+  };
+
+  const venues = table('venues');
+  const events = table('events');
+
+  return {
+    locations: table('locations'),
+    eventTypes: table('event_types'),
+
+    venues: {
+      ...venues,
+      getBySlug: async slug =>
+        unwrap<Row<'venues'> | null>(
+          'venues.getBySlug',
+          await client.from('venues').select('*').eq('slug', slug).maybeSingle()
+        )
+    },
+
+    events: {
+      list: listEvents,
+      page: pageEvents,
+      count: async query => {
+        if (query?.month || query?.from || query?.to || query?.near) {
+          return (await listEvents({ ...query, limit: undefined })).length;
+        }
+
+        let request = client
+          .from('events')
+          .select('id', { count: 'exact', head: true });
+        if (!query?.includeMerged) request = request.is('merged_into', null);
+
+        const { count, error } = await request
+          .match({
+            ...(query?.locationId && { location_id: query.locationId }),
+            ...(query?.typeId && { type_id: query.typeId }),
+            ...(query?.venueId && { venue_id: query.venueId })
+          });
+        unwrap('events.count', { data: count, error });
+        return count || 0;
+      },
+      get: async id =>
+        unwrap<EventWithDetails | null>(
+          'events.get',
+          await client.from('events').select(EVENT_WITH_DETAILS).eq('id', id).maybeSingle()
+        ),
+      create: events.create,
+      update: events.update
+    },
+
+    reviews: {
+      listForEvent: async eventId =>
+        unwrap<Review[]>('reviews.listForEvent', await client.from('reviews').select('*').eq('event_id', eventId)),
+      listForVenue: async venueId =>
+        unwrap<Review[]>(
+          'reviews.listForVenue',
+          await client.from('reviews').select('*, events!inner(venue_id)').eq('events.venue_id', venueId)
+        ),
+      create: async (input: Insert<'reviews'>) =>
+        unwrap<Row<'reviews'>>('reviews.create', await client.from('reviews').insert(input).select().single())
+    },
+
+    users: {
+      get: async id =>
+        unwrap<Row<'users'> | null>('users.get', await client.from('users').select('*').eq('id', id).maybeSingle()),
+      create: async input =>
+        unwrap<Row<'users'>>('users.create', await client.from('users').insert(input).select().single()),
+      update: async (id, changes) =>
+        unwrap<Row<'users'>>(
+          'users.update',
+          await client.from('users').update(withNulls(changes)).eq('id', id).select().single()
+        )
+    }
+  };
+}
@@ -0,0 +1,13 @@
+/**
+ * Registered source adapters, keyed by the `Event.source` they write
+ */
+
+import { eventbriteAdapter } from './eventbrite';
+import { jsonLdAdapter } from './jsonLd';
+import type { SourceAdapter } from './sources';
+
+export const SOURCE_ADAPTERS: SourceAdapter[] = [eventbriteAdapter, jsonLdAdapter];
+
+export function getSourceAdapter(source: string): SourceAdapter | undefined {
+  return SOURCE_ADAPTERS.find(adapter => adapter.source === source);
+}
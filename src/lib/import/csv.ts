@@ -0,0 +1,84 @@
+/**
+ * Minimal RFC 4180 CSV reader
+ *
+ * Quoted fields may contain commas, doubled quotes and line breaks. Headers
+ * are trimmed and lower-cased so "Venue_Name" and "venue_name" both work.
+ */
+
+export interface CsvRecord {
+  line: number; // 1-based line of the record's first character, header is line 1
+  values: Record<string, string>;
+}
+
+export interface CsvTable {
+  headers: string[];
+  records: CsvRecord[];
+}
+
+function splitRows(text: string): Array<{ line: number; fields: string[] }> {
+  const rows: Array<{ line: number; fields: string[] }> = [];
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    fields.push(field);
+    // Skip blank lines rather than reporting them as empty records
+    if (fields.length > 1 || fields[0].trim() !== '') {
+      rows.push({ line: rowLine, fields });
+    }
+    fields = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || fields.length > 0) endRow();
+  return rows;
+}
+
+export function parseCsv(text: string): CsvTable {
+  const [headerRow, ...rows] = splitRows(text.replace(/^\uFEFF/, ''));
+  if (!headerRow) {
+    return { headers: [], records: [] };
+  }
+
+  const headers = headerRow.fields.map(header => header.trim().toLowerCase());
+  const records = rows.map(({ line, fields }) => ({
+    line,
+    values: Object.fromEntries(headers.map((header, index) => [header, (fields[index] ?? '').trim()]))
+  }));
+
+  return { headers, records };
+}
@@ -0,0 +1,277 @@
+/**
+ * Event import: validate, resolve names to ids, report, then commit
+ *
+ * Imports are two-phase. `previewEventImport` works out what would happen to
+ * every row (accepted, rejected with reasons, or a duplicate of an existing
+ * event or an earlier row) without writing anything; `commitEventImport`
+ * then writes the accepted rows, creating missing venues first.
+ */
+
+import { isValid, parseISO } from 'date-fns';
+import { z } from 'zod';
+import type { Insert, Repository, Row } from '../data/repository';
+import { distanceKm } from '../utils/geo';
+import { slugify } from '../utils/slug';
+import { parseCsv } from './csv';
+
+const blankToUndefined = (value: unknown) =>
+  typeof value === 'string' && value.trim() === '' ? undefined : value;
+
+const optional = <T extends z.ZodTypeAny>(schema: T) => z.preprocess(blankToUndefined, schema.optional());
+
+const requiredText = (column: string) =>
+  z.string({ required_error: `${column} is required` }).trim().min(1, `${column} is required`);
+
+// Columns that map straight onto `Event`; `satisfies` catches renamed fields
+const eventFields = {
+  title: requiredText('title').max(200, 'title is longer than 200 characters'),
+  date: requiredText('date')
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'date must be YYYY-MM-DD')
+    .refine(value => isValid(parseISO(value)), 'date is not a calendar date'),
+  time: optional(z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'time must be HH:MM (24h)')),
+  price: optional(z.coerce.number({ invalid_type_error: 'price must be a number' }).nonnegative('price cannot be negative')),
+  description: optional(z.string().max(2000, 'description is longer than 2000 characters')),
+  ticket_url: optional(z.string().url('ticket_url must be a full URL'))
+} satisfies Partial<Record<keyof Insert<'events'>, z.ZodTypeAny>>;
+
+/**
+ * One import row: event fields plus venue, type and location by name
+ *
+ * Location is only needed when the venue is new; a known venue brings its
+ * own. Coordinates let a venue match under a different name.
+ */
+export const eventImportRowSchema = z.object({
+  ...eventFields,
+  venue_name: requiredText('venue_name'),
+  type: requiredText('type'),
+  location: optional(z.string().trim()),
+  venue_address: optional(z.string()),
+  venue_lat: optional(z.coerce.number().min(-90).max(90, 'venue_lat must be a latitude')),
+  venue_long: optional(z.coerce.number().min(-180).max(180, 'venue_long must be a longitude'))
+});
+
+export type EventImportRow = z.infer<typeof eventImportRowSchema>;
+
+export const REQUIRED_IMPORT_COLUMNS = ['title', 'venue_name', 'type', 'date'] as const;
+
+// "Vienna State Opera" at the Staatsoper's coordinates is the Staatsoper
+const VENUE_MATCH_RADIUS_KM = 0.1;
+
+export type ImportRowStatus = 'accepted' | 'rejected' | 'duplicate';
+
+export interface ImportRowResult {
+  line: number; // CSV line, or 1-based record number for source payloads
+  status: ImportRowStatus;
+  title?: string;
+  errors: string[]; // why a row was rejected, or what it duplicates
+  event?: Insert<'events'>; // venue_id is empty while newVenue still has to be created
+  newVenue?: Insert<'venues'>;
+}
+
+export interface ImportReport {
+  rows: ImportRowResult[];
+  summary: {
+    total: number;
+    accepted: number;
+    rejected: number;
+    duplicate: number;
+    newVenues: string[];
+  };
+}
+
+export interface ImportInput {
+  line: number;
+  values: Record<string, unknown>;
+}
+
+/**
+ * Header names the file lacks, for a file-level error before row checks
+ */
+export function missingImportColumns(headers: string[]): string[] {
+  return REQUIRED_IMPORT_COLUMNS.filter(column => !headers.includes(column));
+}
+
+// Matches on id, slug or name, ignoring case, umlaut spelling and punctuation
+function indexByName<T extends { id: string; name: string; slug?: string }>(rows: T[]) {
+  const index = new Map<string, T>();
+  rows.forEach(row => {
+    [row.id, row.slug, row.name].forEach(key => {
+      if (key) index.set(slugify(key), row);
+    });
+  });
+  return index;
+}
+
+function nearestVenue(venues: Row<'venues'>[], lat: number, long: number) {
+  let nearest: Row<'venues'> | undefined;
+  let nearestKm = VENUE_MATCH_RADIUS_KM;
+
+  for (const venue of venues) {
+    if (venue.lat === undefined || venue.long === undefined) continue;
+    const km = distanceKm({ lat, long }, { lat: venue.lat, long: venue.long });
+    if (km <= nearestKm) {
+      nearest = venue;
+      nearestKm = km;
+    }
+  }
+  return nearest;
+}
+
+function duplicateKey(event: Pick<Insert<'events'>, 'title' | 'date' | 'time'>, venueKey: string) {
+  return [venueKey, event.date, event.time ?? '', slugify(event.title)].join('|');
+}
+
+export async function previewEventImport(
+  repository: Repository,
+  inputs: ImportInput[],
+  source = 'import'
+): Promise<ImportReport> {
+  const [locations, eventTypes, venues] = await Promise.all([
+    repository.locations.list(),
+    repository.eventTypes.list(),
+    repository.venues.list()
+  ]);
+  const locationIndex = indexByName(locations);
+  const typeIndex = indexByName(eventTypes);
+  const venueIndex = indexByName(venues);
+
+  const parsed = inputs.map(({ line, values }) => ({
+    line,
+    values,
+    result: eventImportRowSchema.safeParse(values)
+  }));
+
+  // Existing events in the file's date range, for duplicate detection
+  const dates = parsed
+    .flatMap(({ result }) => (result.success ? [result.data.date] : []))
+    .sort();
+  const existing = dates.length > 0
+    ? await repository.events.list({ from: dates[0], to: dates[dates.length - 1] })
+    : [];
+  const seen = new Map<string, string>(
+    existing.map(event => [duplicateKey(event, event.venue_id), `existing event ${event.id}`])
+  );
+
+  const newVenues = new Map<string, Insert<'venues'>>();
+
+  const rows = parsed.map(({ line, values, result }): ImportRowResult => {
+    if (!result.success) {
+      return {
+        line,
+        status: 'rejected',
+        title: typeof values.title === 'string' && values.title !== '' ? values.title : undefined,
+        errors: result.error.issues.map(issue => issue.message)
+      };
+    }
+
+    const row = result.data;
+    const venueSlug = slugify(row.venue_name);
+    const venue: Row<'venues'> | undefined = venueIndex.get(venueSlug)
+      ?? (row.venue_lat !== undefined && row.venue_long !== undefined
+        ? nearestVenue(venues, row.venue_lat, row.venue_long)
+        : undefined);
+
+    const eventType = typeIndex.get(slugify(row.type));
+    const location = row.location ? locationIndex.get(slugify(row.location)) : undefined;
+
+    const errors: string[] = [];
+    if (!eventType) errors.push(`unknown type "${row.type}"`);
+    if (!venue && !row.location) errors.push(`location is required for new venue "${row.venue_name}"`);
+    if (!venue && row.location && !location) errors.push(`unknown location "${row.location}"`);
+    if (errors.length > 0 || !eventType) {
+      return { line, status: 'rejected', title: row.title, errors };
+    }
+
+    const newVenue = venue || !location
+      ? undefined
+      : newVenues.get(venueSlug) ?? {
+        name: row.venue_name,
+        slug: venueSlug,
+        location_id: location.id,
+        city: location.city,
+        address: row.venue_address,
+        lat: row.venue_lat,
+        long: row.venue_long
+      };
+    if (newVenue) newVenues.set(venueSlug, newVenue);
+
+    const event: Insert<'events'> = {
+      title: row.title,
+      venue_id: venue?.id ?? '',
+      type_id: eventType.id,
+      location_id: venue?.location_id ?? newVenue?.location_id ?? '',
+      date: row.date,
+      time: row.time,
+      price: row.price,
+      description: row.description,
+      ticket_url: row.ticket_url,
+      source
+    };
+
+    const key = duplicateKey(event, venue?.id ?? `new:${venueSlug}`);
+    const duplicateOf = seen.get(key);
+    if (duplicateOf) {
+      return { line, status: 'duplicate', title: row.title, errors: [`same as ${duplicateOf}`], event, newVenue };
+    }
+    seen.set(key, `line ${line}`);
+
+    return { line, status: 'accepted', title: row.title, errors: [], event, newVenue };
+  });
+
+  const count = (status: ImportRowStatus) => rows.filter(row => row.status === status).length;
+  const usedVenues = new Set(rows.filter(row => row.status === 'accepted').map(row => row.newVenue?.slug));
+
+  return {
+    rows,
+    summary: {
+      total: rows.length,
+      accepted: count('accepted'),
+      rejected: count('rejected'),
+      duplicate: count('duplicate'),
+      newVenues: Array.from(newVenues.values())
+        .filter(venue => usedVenues.has(venue.slug))
+        .map(venue => venue.name)
+    }
+  };
+}
+
+/**
+ * Parse CSV text and preview it; throws when required columns are missing
+ */
+export async function previewCsvImport(repository: Repository, text: string): Promise<ImportReport> {
+  const { headers, records } = parseCsv(text);
+  const missing = missingImportColumns(headers);
+  if (missing.length > 0) {
+    throw new Error(`CSV is missing required columns: ${missing.join(', ')}`);
+  }
+
+  return previewEventImport(repository, records, 'csv');
+}
+
+/**
+ * Write the accepted rows of a preview; returns how many rows were created
+ */
+export async function commitEventImport(
+  repository: Repository,
+  report: ImportReport
+): Promise<{ events: number; venues: number }> {
+  const accepted = report.rows.filter(
+    (row): row is ImportRowResult & { event: Insert<'events'> } => row.status === 'accepted' && row.event !== undefined
+  );
+  const venueIds = new Map<string, string>();
+
+  for (const { newVenue } of accepted) {
+    if (newVenue && !venueIds.has(newVenue.slug)) {
+      venueIds.set(newVenue.slug, (await repository.venues.create(newVenue)).id);
+    }
+  }
+
+  for (const { event, newVenue } of accepted) {
+    await repository.events.create({
+      ...event,
+      venue_id: newVenue ? (venueIds.get(newVenue.slug) as string) : event.venue_id
+    });
+  }
+
+  return { events: accepted.length, venues: venueIds.size };
+}
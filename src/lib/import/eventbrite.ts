@@ -0,0 +1,107 @@
+/**
+ * Eventbrite-style JSON (API v3 event objects with venue, category and
+ * ticket_availability expanded)
+ *
+ * Accepts a search/list response (`{ events: [...] }`), a bare array or a
+ * single event.
+ */
+
+import { z } from 'zod';
+import {
+  districtFromPostalCode,
+  inferEventType,
+  parsePrice,
+  toViennaDateTime,
+  type SourceAdapter,
+  type SourceEventDraft
+} from './sources';
+
+const text = z.object({ text: z.string().nullish() }).nullish();
+const named = z.object({ name: z.string().nullish(), short_name: z.string().nullish() }).nullish();
+
+const eventbriteEventSchema = z.object({
+  id: z.string(),
+  name: text,
+  description: text,
+  summary: z.string().nullish(),
+  url: z.string().nullish(),
+  start: z.object({ local: z.string().nullish(), utc: z.string().nullish() }),
+  is_free: z.boolean().nullish(),
+  ticket_availability: z.object({
+    minimum_ticket_price: z.object({ major_value: z.string().nullish(), value: z.number().nullish() }).nullish()
+  }).nullish(),
+  category: named,
+  subcategory: named,
+  format: named,
+  venue: z.object({
+    name: z.string().nullish(),
+    latitude: z.string().nullish(),
+    longitude: z.string().nullish(),
+    address: z.object({
+      address_1: z.string().nullish(),
+      postal_code: z.string().nullish(),
+      city: z.string().nullish(),
+      latitude: z.string().nullish(),
+      longitude: z.string().nullish()
+    }).nullish()
+  }).nullish()
+});
+
+type EventbriteEvent = z.infer<typeof eventbriteEventSchema>;
+
+const eventbritePayloadSchema = z.union([
+  z.object({ events: z.array(eventbriteEventSchema) }).transform(payload => payload.events),
+  z.array(eventbriteEventSchema),
+  eventbriteEventSchema.transform(event => [event])
+]);
+
+function toNumber(value?: string | null) {
+  const parsed = value ? Number(value) : NaN;
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function toDraft(event: EventbriteEvent): SourceEventDraft {
+  const venue = event.venue;
+  const address = venue?.address;
+  const { date, time } = event.start.local
+    ? toViennaDateTime(event.start.local)
+    : toViennaDateTime(event.start.utc);
+  const minimum = event.ticket_availability?.minimum_ticket_price;
+  const title = event.name?.text?.trim();
+  const description = event.summary || event.description?.text || undefined;
+
+  return {
+    title,
+    date,
+    time,
+    price: event.is_free ? 0 : parsePrice(minimum?.major_value ?? (minimum?.value != null ? minimum.value / 100 : undefined)),
+    description,
+    ticket_url: event.url || undefined,
+    venue_name: venue?.name || undefined,
+    venue_address: [address?.address_1, [address?.postal_code, address?.city].filter(Boolean).join(' ')]
+      .filter(Boolean)
+      .join(', ') || undefined,
+    venue_lat: toNumber(address?.latitude ?? venue?.latitude),
+    venue_long: toNumber(address?.longitude ?? venue?.longitude),
+    location: districtFromPostalCode(address?.postal_code),
+    type: inferEventType([
+      event.subcategory?.name,
+      event.format?.short_name,
+      event.category?.short_name ?? event.category?.name,
+      title,
+      description
+    ])
+  };
+}
+
+export const eventbriteAdapter: SourceAdapter = {
+  source: 'eventbrite',
+  label: 'Eventbrite JSON',
+  parse: payload => {
+    const result = eventbritePayloadSchema.safeParse(JSON.parse(payload));
+    if (!result.success) {
+      throw new Error(`Not an Eventbrite payload: ${result.error.issues[0]?.message ?? 'unknown shape'}`);
+    }
+    return result.data.map(toDraft);
+  }
+};
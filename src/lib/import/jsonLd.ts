@@ -0,0 +1,126 @@
+/**
+ * schema.org `Event` JSON-LD, as published on venue and ticketing sites
+ *
+ * Takes either JSON (an object, an array or an `@graph`) or a whole HTML
+ * page, in which case every <script type="application/ld+json"> block is
+ * read. Any `Event` subtype counts; the subtype also hints at our event type.
+ */
+
+import {
+  districtFromPostalCode,
+  inferEventType,
+  parsePrice,
+  toViennaDateTime,
+  type SourceAdapter,
+  type SourceEventDraft
+} from './sources';
+
+type JsonLdNode = Record<string, unknown>;
+
+const SCRIPT_PATTERN = /<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
+
+// schema.org Event subtypes and our type for them. Venues tag operas and
+// ballets as TheaterEvent or MusicEvent, so those only fill in when the
+// text gives no genre; the others are specific enough to trust.
+const EVENT_SUBTYPES: Record<string, { type: string; decisive: boolean }> = {
+  DanceEvent: { type: 'dance', decisive: true },
+  ScreeningEvent: { type: 'film', decisive: true },
+  ExhibitionEvent: { type: 'gallery', decisive: true },
+  VisualArtsEvent: { type: 'gallery', decisive: true },
+  TheaterEvent: { type: 'theater', decisive: false },
+  MusicEvent: { type: 'classical-music', decisive: false }
+};
+
+const isNode = (value: unknown): value is JsonLdNode =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asString = (value: unknown) => (typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined);
+
+const asNumber = (value: unknown) => {
+  const parsed = typeof value === 'number' ? value : typeof value === 'string' ? Number(value) : NaN;
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+function typesOf(node: JsonLdNode): string[] {
+  const type = node['@type'];
+  return (Array.isArray(type) ? type : [type]).filter((value): value is string => typeof value === 'string');
+}
+
+function flatten(value: unknown): JsonLdNode[] {
+  if (Array.isArray(value)) return value.flatMap(flatten);
+  if (!isNode(value)) return [];
+  return [value, ...flatten(value['@graph'])];
+}
+
+function readDocuments(payload: string): unknown[] {
+  const trimmed = payload.trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    return [JSON.parse(trimmed)];
+  }
+
+  return Array.from(trimmed.matchAll(SCRIPT_PATTERN), match => {
+    try {
+      return JSON.parse(match[1]);
+    } catch {
+      // One broken block shouldn't hide the others on the page
+      return null;
+    }
+  });
+}
+
+function firstOffer(offers: unknown): JsonLdNode | undefined {
+  const list = Array.isArray(offers) ? offers : [offers];
+  return list.find(isNode);
+}
+
+function toDraft(node: JsonLdNode): SourceEventDraft {
+  const place = (Array.isArray(node.location) ? node.location : [node.location]).find(isNode);
+  const address = place?.address;
+  const postal = isNode(address) ? address : undefined;
+  // Postal codes are sometimes published as numbers
+  const postalCode = typeof postal?.postalCode === 'number' ? String(postal.postalCode) : asString(postal?.postalCode);
+  const geo = isNode(place?.geo) ? place.geo : undefined;
+  const offer = firstOffer(node.offers);
+  const { date, time } = toViennaDateTime(asString(node.startDate));
+  const title = asString(node.name);
+  const description = asString(node.description);
+  const subtype = typesOf(node)
+    .map(type => EVENT_SUBTYPES[type])
+    .find(Boolean);
+
+  return {
+    title,
+    date,
+    time,
+    price: parsePrice(offer?.price ?? offer?.lowPrice),
+    description,
+    ticket_url: asString(offer?.url) ?? asString(node.url),
+    venue_name: asString(place?.name),
+    venue_address: postal
+      ? [asString(postal.streetAddress), [postalCode, asString(postal.addressLocality)].filter(Boolean).join(' ')]
+        .filter(Boolean)
+        .join(', ') || undefined
+      : asString(address),
+    venue_lat: asNumber(geo?.latitude),
+    venue_long: asNumber(geo?.longitude),
+    location: districtFromPostalCode(postalCode),
+    type: subtype?.decisive
+      ? subtype.type
+      : inferEventType([asString(node.genre), title, description], subtype?.type)
+  };
+}
+
+export const jsonLdAdapter: SourceAdapter = {
+  source: 'jsonld',
+  label: 'schema.org Event JSON-LD',
+  parse: payload => {
+    const events = readDocuments(payload)
+      .flatMap(flatten)
+      .filter(node => typesOf(node).some(type => type === 'Event' || type.endsWith('Event')));
+
+    if (events.length === 0) {
+      throw new Error('No schema.org Event found in the payload');
+    }
+    return events.map(toDraft);
+  }
+};
@@ -0,0 +1,127 @@
+/**
+ * External event sources (ticketing feeds, partner sites)
+ *
+ * A SourceAdapter turns one provider payload into drafts – events with
+ * venue, type and district still by name. `ingestSourcePayload` runs those
+ * through the same validation, venue matching and duplicate check as a CSV
+ * import and tags ticket links, so the accepted rows are ready-to-insert
+ * `Insert<'events'>` rows.
+ */
+
+import type { Repository } from '../data/repository';
+import { withAffiliateTag } from '../utils/affiliate';
+import { toZonedDateTime, VIENNA_TIME_ZONE } from '../utils/dates';
+import { previewEventImport, type ImportReport } from './eventImport';
+
+export interface SourceEventDraft {
+  title?: string;
+  date?: string; // YYYY-MM-DD, Vienna local
+  time?: string; // HH:MM, Vienna local
+  price?: number;
+  description?: string;
+  ticket_url?: string;
+  venue_name?: string;
+  venue_address?: string;
+  venue_lat?: number;
+  venue_long?: number;
+  location?: string; // district name
+  type?: string; // event type id
+}
+
+export interface SourceAdapter {
+  source: string; // stored as Event.source
+  label: string;
+  /**
+   * Raw payload text to drafts; throws when the payload isn't this format
+   */
+  parse: (payload: string) => SourceEventDraft[];
+}
+
+// Vienna's postal codes are 1XX0, XX being the district number
+const VIENNA_DISTRICTS = [
+  'Innere Stadt', 'Leopoldstadt', 'Landstraße', 'Wieden', 'Margareten', 'Mariahilf',
+  'Neubau', 'Josefstadt', 'Alsergrund', 'Favoriten', 'Simmering', 'Meidling',
+  'Hietzing', 'Penzing', 'Rudolfsheim-Fünfhaus', 'Ottakring', 'Hernals', 'Währing',
+  'Döbling', 'Brigittenau', 'Floridsdorf', 'Donaustadt', 'Liesing'
+];
+
+export function districtFromPostalCode(postalCode?: string | null): string | undefined {
+  const match = postalCode?.trim().match(/^1(\d\d)0$/);
+  return match ? VIENNA_DISTRICTS[Number(match[1]) - 1] : undefined;
+}
+
+// First match wins, so specific genres come before the broad ones
+const TYPE_KEYWORDS: Array<[string, RegExp]> = [
+  ['opera', /\b(opera|oper|operette|operetta)\b/i],
+  ['jazz', /\b(jazz|swing|bebop|blues)\b/i],
+  ['dance', /\b(dance|ballet|ballett|tanz)\b/i],
+  ['film', /\b(film|films|cinema|kino|screening|movie)\b/i],
+  ['classical-music', /\b(classical|klassik|symphon\w*|orchest\w*|philharmon\w*|concerto|quartet|quartett|lieder|chamber|kammermusik)\b/i],
+  ['contemporary-art', /\b(contemporary|zeitgenössisch\w*|installation|performance art)\b/i],
+  ['gallery', /\b(exhibition|ausstellung|gallery|galerie|museum|visual arts?)\b/i],
+  ['theater', /\b(theater|theatre|play|schauspiel|drama|musical|kabarett|comedy)\b/i]
+];
+
+/**
+ * Our event type id for free-text hints, checked most reliable first
+ * (provider category, then title, then description)
+ */
+export function inferEventType(hints: Array<string | null | undefined>, fallback?: string): string | undefined {
+  for (const hint of hints) {
+    if (!hint) continue;
+    const match = TYPE_KEYWORDS.find(([, pattern]) => pattern.test(hint));
+    if (match) return match[0];
+  }
+  return fallback;
+}
+
+/**
+ * ISO date-time to Vienna-local date and time
+ *
+ * Values with a numeric offset or none are taken as the publisher's local
+ * time; UTC ("Z") values are converted.
+ */
+export function toViennaDateTime(value?: string | null): { date?: string; time?: string } {
+  if (!value) return {};
+
+  if (/Z$/i.test(value)) {
+    const instant = new Date(value);
+    return Number.isNaN(instant.getTime()) ? {} : toZonedDateTime(instant, VIENNA_TIME_ZONE);
+  }
+
+  const match = value.match(/^(\d{4}-\d{2}-\d{2})(?:[T ](\d{2}:\d{2}))?/);
+  return match ? { date: match[1], time: match[2] } : {};
+}
+
+export function parsePrice(value: unknown): number | undefined {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  if (typeof value !== 'string') return undefined;
+  // "25,00" and "€ 25.00" both occur in the wild
+  const parsed = Number(value.replace(/[^\d.,]/g, '').replace(',', '.'));
+  return value.trim() !== '' && Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Drafts → import report with ticket links carrying our affiliate tag
+ */
+export async function ingestSourcePayload(
+  repository: Repository,
+  adapter: SourceAdapter,
+  payload: string
+): Promise<ImportReport> {
+  const drafts = adapter.parse(payload);
+  const report = await previewEventImport(
+    repository,
+    drafts.map((draft, index) => ({ line: index + 1, values: { ...draft } })),
+    adapter.source
+  );
+
+  return {
+    ...report,
+    rows: report.rows.map(row =>
+      row.event?.ticket_url
+        ? { ...row, event: { ...row.event, ticket_url: withAffiliateTag(row.event.ticket_url) } }
+        : row
+    )
+  };
+}
@@ -0,0 +1,384 @@
+/**
+ * Rule-based parser for free-text event queries, German and English
+ *
+ * "jazz in Neubau next weekend", "Oper im März unter 50 €" or "free
+ * exhibitions 1070 tonight" become a district, an event type, a date range
+ * and price bounds, ready for the quiz filters or the event listing. No
+ * model is involved: the text is folded into words the same way search
+ * folds them (see data/search.ts), then phrase rules are matched left to
+ * right, longest phrase first. Words no rule consumes come back in
+ * `unmatched` so the UI can say what it ignored.
+ */
+
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  endOfWeek,
+  format,
+  parseISO,
+  startOfWeek
+} from 'date-fns';
+import type { EventFilters, QuizFilters } from '../types';
+import type { FilterVocabulary } from '../data/eventFilters';
+import { searchTerms } from '../data/search';
+import { monthRange, normalizeMonth, toMonthKey, todayIn } from '../utils/dates';
+import { slugify } from '../utils/slug';
+
+export interface ParsedQuery {
+  location: string | null; // location id
+  category: string | null; // event type id
+  month: string | null; // YYYY-MM the dates start in
+  from?: string; // YYYY-MM-DD, set with `to` when narrower than the month
+  to?: string;
+  priceMin?: number;
+  priceMax?: number; // 0 for "free"
+  unmatched: string[];
+}
+
+export type QueryVocabulary = FilterVocabulary;
+
+// A token, or a pattern a token must match whole; pattern matches are captured
+type Matcher = string | RegExp;
+
+interface Rule {
+  pattern: Matcher[];
+  apply: (captures: string[], parsed: ParsedQuery) => void;
+}
+
+const NUMBER = /^\d+$/;
+const ORDINAL = /^(\d+)(st|nd|rd|th)?$/;
+const POSTCODE = /^1(\d\d)0$/;
+const YEAR = /^20\d\d$/;
+
+// Vienna's districts by number, for "7. Bezirk", "district 7" and "1070"
+const DISTRICT_NUMBERS = [
+  'Innere Stadt', 'Leopoldstadt', 'Landstraße', 'Wieden', 'Margareten', 'Mariahilf',
+  'Neubau', 'Josefstadt', 'Alsergrund', 'Favoriten', 'Simmering', 'Meidling',
+  'Hietzing', 'Penzing', 'Rudolfsheim-Fünfhaus', 'Ottakring', 'Hernals', 'Währing',
+  'Döbling', 'Brigittenau', 'Floridsdorf', 'Donaustadt', 'Liesing'
+];
+
+// Other words for an event type, keyed by the slug of its name
+const TYPE_SYNONYMS: Record<string, string[]> = {
+  opera: ['oper', 'opern', 'operas'],
+  theater: ['theatre', 'play', 'plays', 'schauspiel', 'theaterstück', 'theaterstücke', 'drama'],
+  'classical-music': ['classical', 'klassik', 'klassische musik', 'concert', 'concerts', 'konzert', 'konzerte', 'orchestra', 'orchester', 'symphony', 'sinfonie', 'symphonie'],
+  'contemporary-art': ['modern art', 'moderne kunst', 'zeitgenössische kunst', 'art', 'kunst'],
+  dance: ['tanz', 'ballet', 'ballett'],
+  film: ['films', 'kino', 'cinema', 'movie', 'movies'],
+  jazz: ['jazzkonzert', 'jazz concert'],
+  gallery: ['galerie', 'galleries', 'galerien', 'exhibition', 'exhibitions', 'ausstellung', 'ausstellungen', 'museum']
+};
+
+const MONTH_NAMES: string[][] = [
+  ['january', 'jan', 'januar', 'jänner', 'jaenner'],
+  ['february', 'feb', 'februar', 'feber'],
+  ['march', 'mar', 'märz', 'maerz'],
+  ['april', 'apr'],
+  ['mai'], // English "may" only after "in", see dateRules
+  ['june', 'jun', 'juni'],
+  ['july', 'jul', 'juli'],
+  ['august', 'aug'],
+  ['september', 'sep', 'sept'],
+  ['october', 'oct', 'oktober', 'okt'],
+  ['november', 'nov'],
+  ['december', 'dec', 'dezember', 'dez']
+];
+
+const WEEKDAY_NAMES: string[][] = [
+  ['monday', 'montag'],
+  ['tuesday', 'dienstag'],
+  ['wednesday', 'mittwoch'],
+  ['thursday', 'donnerstag'],
+  ['friday', 'freitag'],
+  ['saturday', 'samstag', 'sonnabend'],
+  ['sunday', 'sonntag']
+];
+
+// "Cheap" means the listing's cheapest price chip
+const CHEAP_PRICE = 50;
+
+// Glue words: consumed silently, never reported as unmatched
+const STOP_WORDS = new Set(searchTerms(`
+  in im am an at on the a for to near bei um zum zur der die das den dem ein eine einen
+  und and or oder with mit some any etwas events event veranstaltungen veranstaltung
+  show shows me mir zeig zeige find finde suche looking i want ich will möchte
+  this these next coming diese dieser dieses diesen nächste nächster nächstes nächsten
+  kommende kommender kommendes kommenden euro euros eur bis until
+`));
+
+const words = (phrase: string): string[] => searchTerms(phrase);
+
+function setRange(parsed: ParsedQuery, from: string, to: string) {
+  parsed.from = from;
+  parsed.to = to;
+  parsed.month = from.slice(0, 7);
+}
+
+function setMonth(parsed: ParsedQuery, key: string | null, today: string) {
+  if (!key) return;
+  parsed.month = key;
+  const range = monthRange(key, today);
+  // A whole month needs no range; from today on is implied for the current one
+  parsed.from = undefined;
+  parsed.to = undefined;
+  if (range.from !== `${key}-01`) setRange(parsed, range.from, range.to);
+}
+
+function dateRules(today: string): Rule[] {
+  const day = parseISO(today);
+  const iso = (date: Date) => format(date, 'yyyy-MM-dd');
+  const weekday = day.getDay() || 7; // ISO, 1 = Monday
+  const weekStart = startOfWeek(day, { weekStartsOn: 1 });
+
+  // Saturday and Sunday of the current week; the rest of it once it has started
+  const thisWeekend = () => weekday >= 6
+    ? [today, iso(addDays(weekStart, 6))]
+    : [iso(addDays(weekStart, 5)), iso(addDays(weekStart, 6))];
+  const nextWeekend = () => [iso(addDays(weekStart, 12)), iso(addDays(weekStart, 13))];
+
+  const range = (phrases: string[], dates: () => string[]): Rule[] =>
+    phrases.map(phrase => ({
+      pattern: words(phrase),
+      apply: (_, parsed) => {
+        const [from, to] = dates();
+        setRange(parsed, from, to);
+      }
+    }));
+
+  return [
+    ...range(['today', 'tonight', 'this evening', 'heute', 'heute abend', 'heute nacht', 'heut'], () => [today, today]),
+    ...range(['day after tomorrow', 'übermorgen'], () => [iso(addDays(day, 2)), iso(addDays(day, 2))]),
+    ...range(['tomorrow', 'tomorrow night', 'morgen', 'morgen abend'], () => [iso(addDays(day, 1)), iso(addDays(day, 1))]),
+    ...range(['next weekend', 'nächstes wochenende', 'nächsten wochenende'], nextWeekend),
+    ...range(['this weekend', 'weekend', 'wochenende', 'dieses wochenende', 'am wochenende'], thisWeekend),
+    ...range(['next week', 'nächste woche', 'nächster woche'], () => [
+      iso(addWeeks(weekStart, 1)), iso(endOfWeek(addWeeks(weekStart, 1), { weekStartsOn: 1 }))
+    ]),
+    ...range(['this week', 'diese woche', 'dieser woche'], () => [
+      today, iso(endOfWeek(day, { weekStartsOn: 1 }))
+    ]),
+    ...['next month', 'nächsten monat', 'nächster monat', 'nächstes monat'].map(phrase => ({
+      pattern: words(phrase),
+      apply: (_: string[], parsed: ParsedQuery) => setMonth(parsed, format(addMonths(day, 1), 'yyyy-MM'), today)
+    })),
+    ...['this month', 'diesen monat', 'dieses monat', 'diesem monat'].map(phrase => ({
+      pattern: words(phrase),
+      apply: (_: string[], parsed: ParsedQuery) => setMonth(parsed, today.slice(0, 7), today)
+    })),
+    // "in March 2027" before "in March"
+    ...MONTH_NAMES.flatMap((names, index) => names.map(name => ({
+      pattern: [...words(name), YEAR],
+      apply: ([year]: string[], parsed: ParsedQuery) => {
+        const key = toMonthKey(Number(year), index + 1);
+        if (key >= today.slice(0, 7)) setMonth(parsed, key, today);
+      }
+    }))),
+    ...MONTH_NAMES.flatMap((names, index) => names.map(name => ({
+      pattern: words(name),
+      apply: (_: string[], parsed: ParsedQuery) => setMonth(parsed, normalizeMonth(index + 1, today), today)
+    }))),
+    {
+      pattern: ['in', 'may'],
+      apply: (_, parsed) => setMonth(parsed, normalizeMonth(5, today), today)
+    },
+    // A weekday is its next occurrence, today included
+    ...WEEKDAY_NAMES.flatMap((names, index) => names.map(name => ({
+      pattern: words(name),
+      apply: (_: string[], parsed: ParsedQuery) => {
+        const date = iso(addDays(day, (index + 1 - weekday + 7) % 7));
+        setRange(parsed, date, date);
+      }
+    })))
+  ];
+}
+
+function priceRules(): Rule[] {
+  const bound = (phrases: string[], key: 'priceMin' | 'priceMax'): Rule[] =>
+    phrases.map(phrase => ({
+      pattern: [...words(phrase), NUMBER],
+      apply: ([amount], parsed) => {
+        parsed[key] = Number(amount);
+      }
+    }));
+  const fixed = (phrases: string[], apply: Rule['apply']): Rule[] =>
+    phrases.map(phrase => ({ pattern: words(phrase), apply }));
+
+  return [
+    ...bound(['under', 'below', 'less than', 'up to', 'max', 'maximum', 'at most', 'cheaper than',
+      'unter', 'bis', 'bis zu', 'höchstens', 'maximal', 'weniger als', 'billiger als'], 'priceMax'),
+    ...bound(['over', 'above', 'more than', 'from', 'at least', 'über', 'ab', 'mehr als', 'mindestens'], 'priceMin'),
+    ...fixed(['free', 'free entry', 'free admission', 'gratis', 'kostenlos', 'umsonst', 'eintritt frei', 'freier eintritt'],
+      (_, parsed) => {
+        parsed.priceMax = 0;
+      }),
+    // Times are not price bounds: "ab 19 Uhr", "um 20 Uhr", "bis 22 Uhr"
+    ...['ab', 'um', 'bis', 'bis zu', 'from', 'at', 'until', 'before'].map(phrase => ({
+      pattern: [...words(phrase), NUMBER, 'uhr'],
+      apply: () => undefined
+    })),
+    { pattern: [NUMBER, 'uhr'], apply: () => undefined },
+    ...fixed(['cheap', 'budget', 'affordable', 'günstig', 'günstige', 'billig', 'billige', 'preiswert'],
+      (_, parsed) => {
+        parsed.priceMax = Math.min(parsed.priceMax ?? CHEAP_PRICE, CHEAP_PRICE);
+      })
+  ];
+}
+
+function vocabularyRules({ locations, eventTypes }: QueryVocabulary): Rule[] {
+  const bySlug = new Map(locations.map(location => [slugify(location.name), location.id]));
+  const districtId = (number: number) => {
+    const name = DISTRICT_NUMBERS[number - 1];
+    return name ? bySlug.get(slugify(name)) : undefined;
+  };
+  const setDistrict = (number: number, parsed: ParsedQuery) => {
+    const id = districtId(number);
+    if (id) parsed.location = id;
+  };
+
+  const locationRules: Rule[] = locations.map(location => ({
+    pattern: words(location.name),
+    apply: (_, parsed) => {
+      parsed.location = location.id;
+    }
+  }));
+  const districtRules: Rule[] = [
+    { pattern: [ORDINAL, 'bezirk'], apply: ([number], parsed) => setDistrict(parseInt(number, 10), parsed) },
+    { pattern: ['bezirk', NUMBER], apply: ([number], parsed) => setDistrict(Number(number), parsed) },
+    { pattern: [ORDINAL, 'district'], apply: ([number], parsed) => setDistrict(parseInt(number, 10), parsed) },
+    { pattern: ['district', NUMBER], apply: ([number], parsed) => setDistrict(Number(number), parsed) },
+    {
+      pattern: [POSTCODE],
+      apply: ([postcode], parsed) => setDistrict(Number((POSTCODE.exec(postcode) as RegExpExecArray)[1]), parsed)
+    }
+  ];
+
+  const typeRules: Rule[] = eventTypes.flatMap(eventType => {
+    const phrases = [eventType.name, ...(TYPE_SYNONYMS[slugify(eventType.name)] || [])];
+    return phrases.flatMap(phrase => {
+      const pattern = words(phrase);
+      // English plurals of one-word names: "operas", "galleries" are listed, "jazz" needs none
+      const plural = pattern.length === 1 && !phrase.endsWith('s') ? [[`${pattern[0]}s`]] : [];
+      return [pattern, ...plural].map(tokens => ({
+        pattern: tokens,
+        apply: (_: string[], parsed: ParsedQuery) => {
+          parsed.category = eventType.id;
+        }
+      }));
+    });
+  });
+
+  return [...locationRules, ...districtRules, ...typeRules];
+}
+
+function matchAt(tokens: string[], start: number, pattern: Matcher[]): string[] | null {
+  if (start + pattern.length > tokens.length) return null;
+  const captures: string[] = [];
+  for (let offset = 0; offset < pattern.length; offset++) {
+    const matcher = pattern[offset];
+    const token = tokens[start + offset];
+    if (typeof matcher === 'string') {
+      if (matcher !== token) return null;
+    } else if (matcher.test(token)) {
+      captures.push(token);
+    } else {
+      return null;
+    }
+  }
+  return captures;
+}
+
+/**
+ * Filters found in `text`; later phrases win over earlier ones of the same kind
+ */
+export function parseNaturalQuery(
+  text: string,
+  vocabulary: QueryVocabulary,
+  today: string = todayIn()
+): ParsedQuery {
+  const rules = [...vocabularyRules(vocabulary), ...dateRules(today), ...priceRules()]
+    .filter(rule => rule.pattern.length > 0)
+    .sort((a, b) => b.pattern.length - a.pattern.length);
+  const tokens = searchTerms(text);
+  const parsed: ParsedQuery = { location: null, category: null, month: null, unmatched: [] };
+
+  for (let position = 0; position < tokens.length;) {
+    const match = rules
+      .map(rule => ({ rule, captures: matchAt(tokens, position, rule.pattern) }))
+      .find(({ captures }) => captures !== null);
+
+    if (match) {
+      match.rule.apply(match.captures as string[], parsed);
+      position += match.rule.pattern.length;
+    } else {
+      if (!STOP_WORDS.has(tokens[position])) parsed.unmatched.push(tokens[position]);
+      position++;
+    }
+  }
+
+  return parsed;
+}
+
+export function toQuizFilters({ location, category, month }: ParsedQuery): QuizFilters {
+  return { location, category, month };
+}
+
+export function toEventFilters(parsed: ParsedQuery): EventFilters {
+  return {
+    locationIds: parsed.location ? [parsed.location] : undefined,
+    typeIds: parsed.category ? [parsed.category] : undefined,
+    months: parsed.month ? [parsed.month] : undefined,
+    priceMin: parsed.priceMin,
+    priceMax: parsed.priceMax
+  };
+}
+
+/**
+ * /results link for a parsed query: the quiz answers, plus the date range and
+ * price bounds the quiz itself can't express. Missing answers send the
+ * results page's route guard back to that quiz step.
+ */
+export function naturalQueryResultsHref(parsed: ParsedQuery): string {
+  const params = new URLSearchParams();
+  if (parsed.location) params.set('location', parsed.location);
+  if (parsed.category) params.set('category', parsed.category);
+  if (parsed.month) params.set('month', parsed.month);
+  if (parsed.from && parsed.to) {
+    params.set('from', parsed.from);
+    params.set('to', parsed.to);
+  }
+  if (parsed.priceMin !== undefined) params.set('price_min', String(parsed.priceMin));
+  if (parsed.priceMax !== undefined) params.set('price_max', String(parsed.priceMax));
+  return `/results?${params.toString()}`;
+}
+
+export interface ResultsRefinements {
+  from?: string;
+  to?: string;
+  priceMin?: number;
+  priceMax?: number;
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * The extras `naturalQueryResultsHref` adds to a results URL; a range only
+ * counts when it starts in the chosen month, so editing the month drops it
+ */
+export function resultsRefinementsFromParams(params: URLSearchParams, month: string | null): ResultsRefinements {
+  const from = params.get('from') || '';
+  const to = params.get('to') || '';
+  const price = (name: string) => {
+    const value = params.get(name);
+    return value !== null && value !== '' && Number.isFinite(Number(value)) ? Number(value) : undefined;
+  };
+  const hasRange = ISO_DATE.test(from) && ISO_DATE.test(to) && from <= to && !!month && from.startsWith(month);
+
+  return {
+    from: hasRange ? from : undefined,
+    to: hasRange ? to : undefined,
+    priceMin: price('price_min'),
+    priceMax: price('price_max')
+  };
+}
@@ -0,0 +1,124 @@
+/**
+ * Quiz step definitions
+ *
+ * The quiz runs through these steps in array order. The /quiz/[step] route,
+ * progress indicator, breadcrumbs, store navigation and facet fetching all
+ * read from this list, so adding, removing or reordering a step is a change
+ * here (plus its field on QuizFilters).
+ */
+
+import type { EventQuery } from '../data/eventQuery';
+import type { QuizFilters } from '../types';
+import { normalizeMonth } from '../utils/dates';
+
+export type QuizFilterKey = keyof QuizFilters;
+
+export interface QuizStepDefinition {
+  id: string; // URL slug: /quiz/[id]
+  filterKey: QuizFilterKey; // quiz store field, also the URL/API query param
+  paramAliases?: string[]; // older query param names still read from URLs
+  queryKey: keyof EventQuery; // repository filter the answer drives
+  label: string; // progress indicator
+  breadcrumbLabel: string;
+  title: string;
+  subtitle: string;
+  dataSource: string; // facet API route returning FacetCount[]
+  itemNoun: string; // plural, for "Couldn't load ..." and the hint line
+  hint: string;
+  anyLabel: string; // results page "Choose any ..." suggestion
+  legend: {
+    text: string;
+    disabledText?: string; // used instead when some options have no events
+    show: 'always' | 'when-disabled';
+  };
+  fontSizeRange: { min: number; max: number };
+  ariaLabel: string;
+  analyticsName: string; // tracked as click_<name> and <name>_selection
+  toValue?: (id: string) => QuizFilters[QuizFilterKey]; // facet id → stored answer
+}
+
+export const QUIZ_STEPS: QuizStepDefinition[] = [
+  {
+    id: 'location',
+    filterKey: 'location',
+    queryKey: 'locationId',
+    label: 'Location',
+    breadcrumbLabel: 'Location',
+    title: 'Find cultural events that match your taste',
+    subtitle: 'Start by picking your area',
+    dataSource: '/api/locations',
+    itemNoun: 'districts',
+    hint: 'Click any district to continue',
+    anyLabel: 'any district',
+    legend: { text: 'Larger words mean more events in that area', show: 'always' },
+    fontSizeRange: { min: 1.1, max: 2.4 },
+    ariaLabel: 'Choose a location in Vienna',
+    analyticsName: 'location'
+  },
+  {
+    id: 'event-type',
+    filterKey: 'category',
+    paramAliases: ['type'],
+    queryKey: 'typeId',
+    label: 'Event Type',
+    breadcrumbLabel: 'Type',
+    title: 'What type of cultural event?',
+    subtitle: 'Pick what you\'re in the mood for',
+    dataSource: '/api/categories',
+    itemNoun: 'event types',
+    hint: 'Click any event type to continue',
+    anyLabel: 'any event type',
+    // Users understand sizing by step 2; only explain greyed-out words
+    legend: { text: 'Greyed-out types have no events in that area', show: 'when-disabled' },
+    fontSizeRange: { min: 1.0, max: 1.8 }, // Smaller range for readability
+    ariaLabel: 'Choose an event type',
+    analyticsName: 'category'
+  },
+  {
+    id: 'month',
+    filterKey: 'month',
+    queryKey: 'month',
+    label: 'Time',
+    breadcrumbLabel: 'Month',
+    title: 'When would you like to go?',
+    subtitle: 'Pick a month in the year ahead',
+    dataSource: '/api/months',
+    itemNoun: 'months',
+    hint: 'Click any month to see your events',
+    anyLabel: 'any month',
+    legend: {
+      text: 'Larger months mean more events available',
+      disabledText: 'Larger months mean more events available; greyed-out months have none',
+      show: 'always'
+    },
+    fontSizeRange: { min: 1.1, max: 2.4 },
+    ariaLabel: 'Choose a month',
+    analyticsName: 'month',
+    // Facet ids are YYYY-MM; links from before years were added carry a
+    // bare month number, read as that month's next occurrence
+    toValue: id => normalizeMonth(id)
+  }
+];
+
+export function getQuizStep(id: string): QuizStepDefinition | undefined {
+  return QUIZ_STEPS.find(step => step.id === id);
+}
+
+/**
+ * 1-based position of a step, as used by the store's currentStep
+ */
+export function getQuizStepNumber(step: QuizStepDefinition): number {
+  return QUIZ_STEPS.indexOf(step) + 1;
+}
+
+/**
+ * URL for a 1-based step number; one past the last step is the results page
+ */
+export function getQuizStepHref(stepNumber: number): string {
+  if (stepNumber > QUIZ_STEPS.length) return '/results';
+  return `/quiz/${(QUIZ_STEPS[stepNumber - 1] || QUIZ_STEPS[0]).id}`;
+}
+
+export function isQuizAnswered(filters: QuizFilters): boolean {
+  return QUIZ_STEPS.every(step => filters[step.filterKey] !== null);
+}
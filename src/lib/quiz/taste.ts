@@ -0,0 +1,149 @@
+/**
+ * Taste quiz: the optional second phase after the month step
+ *
+ * Fills QuizResponses (era, venue size, budget, genres, discovery mode).
+ * Like QUIZ_STEPS, the array order is the quiz order and /quiz/taste/[step]
+ * renders whatever is defined here.
+ */
+
+import type { QuizResponses } from '../types';
+
+export type TasteResponseKey = keyof QuizResponses;
+
+export interface TasteOption {
+  id: string; // stored in QuizResponses
+  text: string;
+  weight: number; // word size in the cloud
+  keywords?: string[]; // lowercase fragments matched against event title, description and type
+}
+
+export interface TasteStepDefinition {
+  id: string; // URL slug: /quiz/taste/[id]
+  responseKey: TasteResponseKey;
+  multiple: boolean; // several words can be picked, then confirmed
+  maxSelections?: number;
+  label: string;
+  title: string;
+  subtitle: string;
+  hint: string;
+  ariaLabel: string;
+  analyticsName: string;
+  options: TasteOption[];
+}
+
+export const TASTE_STEPS: TasteStepDefinition[] = [
+  {
+    id: 'genres',
+    responseKey: 'genres',
+    multiple: true,
+    maxSelections: 4,
+    label: 'Genres',
+    title: 'Which genres speak to you?',
+    subtitle: 'Pick up to four',
+    hint: 'Select a few, then continue',
+    ariaLabel: 'Choose your favourite genres',
+    analyticsName: 'genres',
+    options: [
+      { id: 'opera', text: 'Opera', weight: 5, keywords: ['opera', 'oper', 'traviata', 'giovanni', 'magic flute', 'carmen', 'tosca', 'rigoletto'] },
+      { id: 'symphonic', text: 'Symphonic', weight: 5, keywords: ['philharmon', 'symphon', 'orchestra', 'requiem', 'mahler'] },
+      { id: 'chamber', text: 'Chamber Music', weight: 3, keywords: ['chamber', 'kammer', 'quartet', 'lieder', 'recital'] },
+      { id: 'jazz', text: 'Jazz', weight: 4, keywords: ['jazz', 'big band', 'late set'] },
+      { id: 'ballet', text: 'Ballet', weight: 3, keywords: ['ballet', 'swan lake', 'nutcracker', 'giselle'] },
+      { id: 'contemporary-dance', text: 'Contemporary Dance', weight: 2, keywords: ['tanz', 'bewegung', 'contemporary dance'] },
+      { id: 'drama', text: 'Drama', weight: 4, keywords: ['hamlet', 'macbeth', 'tempest', 'liliom', 'jedermann', 'talisman'] },
+      { id: 'visual-art', text: 'Visual Art', weight: 3, keywords: ['klimt', 'photography', 'exhibition', 'positions', 'around 1900'] },
+      { id: 'film', text: 'Film', weight: 2, keywords: ['film', 'viennale', 'shorts', 'cinema'] },
+      { id: 'experimental', text: 'Experimental', weight: 1, keywords: ['performance', 'sound', 'experimental'] }
+    ]
+  },
+  {
+    id: 'era',
+    responseKey: 'era',
+    multiple: true,
+    maxSelections: 3,
+    label: 'Era',
+    title: 'Which eras draw you in?',
+    subtitle: 'Pick up to three',
+    hint: 'Select a few, then continue',
+    ariaLabel: 'Choose your favourite eras',
+    analyticsName: 'era',
+    options: [
+      { id: 'baroque', text: 'Baroque', weight: 2, keywords: ['baroque', 'barock', 'bach', 'handel', 'händel', 'vivaldi', 'monteverdi'] },
+      { id: 'classical', text: 'Viennese Classical', weight: 5, keywords: ['mozart', 'haydn', 'beethoven', 'schubert', 'magic flute', 'giovanni'] },
+      { id: 'romantic', text: 'Romantic', weight: 4, keywords: ['brahms', 'mahler', 'bruckner', 'verdi', 'traviata', 'rigoletto', 'puccini', 'tosca', 'carmen', 'swan lake', 'nutcracker', 'giselle'] },
+      { id: 'fin-de-siecle', text: 'Vienna 1900', weight: 3, keywords: ['1900', 'klimt', 'schnitzler', 'liliom', 'jedermann'] },
+      { id: 'modern', text: 'Modern', weight: 2, keywords: ['schoenberg', 'schönberg', 'berg', 'webern', 'stravinsky', 'classics'] },
+      { id: 'contemporary', text: 'Contemporary', weight: 3, keywords: ['contemporary', 'new positions', 'premiere', 'uraufführung', 'performance'] }
+    ]
+  },
+  {
+    id: 'venue-size',
+    responseKey: 'venue_size',
+    multiple: false,
+    label: 'Venue',
+    title: 'What kind of room?',
+    subtitle: 'Pick the venue size you enjoy most',
+    hint: 'Click one to continue',
+    ariaLabel: 'Choose a venue size',
+    analyticsName: 'venue_size',
+    options: [
+      { id: 'intimate', text: 'Intimate', weight: 3 },
+      { id: 'medium', text: 'Mid-sized', weight: 3 },
+      { id: 'large', text: 'Grand Hall', weight: 3 }
+    ]
+  },
+  {
+    id: 'budget',
+    responseKey: 'budget',
+    multiple: false,
+    label: 'Budget',
+    title: 'What do you usually spend?',
+    subtitle: 'Per ticket',
+    hint: 'Click one to continue',
+    ariaLabel: 'Choose a ticket budget',
+    analyticsName: 'budget',
+    options: [
+      { id: 'low', text: 'Under €30', weight: 3 },
+      { id: 'medium', text: '€30 – €70', weight: 3 },
+      { id: 'high', text: '€70 and up', weight: 3 }
+    ]
+  },
+  {
+    id: 'discovery',
+    responseKey: 'discovery_mode',
+    multiple: false,
+    label: 'Discovery',
+    title: 'Crowd favourites or hidden gems?',
+    subtitle: 'How adventurous should your results be?',
+    hint: 'Click one to see your events',
+    ariaLabel: 'Choose a discovery mode',
+    analyticsName: 'discovery_mode',
+    options: [
+      { id: 'popular', text: 'Crowd Favourites', weight: 3 },
+      { id: 'mixed', text: 'A Bit of Both', weight: 3 },
+      { id: 'hidden_gems', text: 'Hidden Gems', weight: 3 }
+    ]
+  }
+];
+
+export function getTasteStep(id: string): TasteStepDefinition | undefined {
+  return TASTE_STEPS.find(step => step.id === id);
+}
+
+export function getTasteStepHref(stepNumber: number): string {
+  if (stepNumber > TASTE_STEPS.length) return '/results';
+  return `/quiz/taste/${(TASTE_STEPS[stepNumber - 1] || TASTE_STEPS[0]).id}`;
+}
+
+/**
+ * Selected option ids for a step, whether the response is a list or a single value
+ */
+export function getTasteSelection(responses: QuizResponses, step: TasteStepDefinition): string[] {
+  const value = responses[step.responseKey];
+  if (Array.isArray(value)) return value;
+  return value ? [value] : [];
+}
+
+export function hasTasteResponses(responses: QuizResponses | undefined): boolean {
+  return !!responses && TASTE_STEPS.some(step => getTasteSelection(responses, step).length > 0);
+}
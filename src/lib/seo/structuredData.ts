@@ -0,0 +1,151 @@
+/**
+ * schema.org JSON-LD builders for server-rendered pages
+ *
+ * Plain objects ready for <JsonLd />; fields we don't know are left out
+ * rather than filled with placeholders.
+ */
+
+import type { EventWithDetails, Performance, Venue } from '../types';
+import type { ReviewSummary } from '../data/reviewStats';
+import { performancesOf } from '../data/performances';
+import { withAffiliateTag } from '../utils/affiliate';
+import { toZonedIsoString, VIENNA_TIME_ZONE } from '../utils/dates';
+
+type JsonLdObject = Record<string, unknown>;
+
+export function absoluteUrl(path: string): string {
+  const base = process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000';
+  return new URL(path, base).toString();
+}
+
+function withoutEmpty(object: JsonLdObject): JsonLdObject {
+  return Object.fromEntries(
+    Object.entries(object).filter(([, value]) => value !== undefined && value !== null && value !== '')
+  );
+}
+
+/**
+ * "Opernring 2, 1010 Wien" → street, postal code and locality
+ */
+export function postalAddress(venue: Venue): JsonLdObject {
+  const [street, rest = ''] = (venue.address || '').split(',').map(part => part.trim());
+  const postalCode = rest.match(/\b\d{4}\b/)?.[0];
+
+  return withoutEmpty({
+    '@type': 'PostalAddress',
+    streetAddress: street,
+    postalCode,
+    addressLocality: venue.city,
+    addressCountry: 'AT'
+  });
+}
+
+export function placeJsonLd(venue: Venue): JsonLdObject {
+  return withoutEmpty({
+    '@type': 'Place',
+    name: venue.name,
+    address: postalAddress(venue),
+    geo: venue.lat !== undefined && venue.long !== undefined
+      ? { '@type': 'GeoCoordinates', latitude: venue.lat, longitude: venue.long }
+      : undefined,
+    url: venue.website
+  });
+}
+
+// One offer per ticket link once sources are merged, else the single link
+function offersJsonLd(event: EventWithDetails): JsonLdObject | JsonLdObject[] | undefined {
+  const urls = event.ticket_links?.length
+    ? event.ticket_links.map(link => link.url)
+    : event.ticket_url ? [event.ticket_url] : [];
+  if (event.price === undefined && urls.length === 0) return undefined;
+
+  const offers = (urls.length > 0 ? urls : [undefined]).map(url => withoutEmpty({
+    '@type': 'Offer',
+    price: event.price,
+    priceCurrency: event.price !== undefined ? 'EUR' : undefined,
+    url: url ? withAffiliateTag(url) : undefined,
+    availability: 'https://schema.org/InStock'
+  }));
+  return offers.length === 1 ? offers[0] : offers;
+}
+
+// Venues are all in Vienna; times go out with the offset that applied that day
+function startDateOf(performance: Performance): string {
+  return performance.time ? toZonedIsoString(performance.date, performance.time, VIENNA_TIME_ZONE) : performance.date;
+}
+
+export function eventJsonLd(event: EventWithDetails): JsonLdObject {
+  return {
+    '@context': 'https://schema.org',
+    ...eventFields(event, placeJsonLd(event.venues))
+  };
+}
+
+// The Event without @context; `location` is left out where an enclosing object is the place
+function eventFields(event: EventWithDetails, location?: JsonLdObject): JsonLdObject {
+  const performances = performancesOf(event);
+  const isRun = performances.length > 1;
+
+  return withoutEmpty({
+    '@type': 'Event',
+    name: event.title,
+    description: event.description,
+    startDate: startDateOf(performances[0]),
+    endDate: isRun ? performances[performances.length - 1].date : undefined,
+    eventStatus: 'https://schema.org/EventScheduled',
+    eventAttendanceMode: 'https://schema.org/OfflineEventAttendanceMode',
+    url: absoluteUrl(`/events/${event.id}`),
+    location,
+    offers: offersJsonLd(event),
+    // Each performance of a run as its own dated event
+    subEvent: isRun
+      ? performances.map(performance => withoutEmpty({
+        '@type': 'Event',
+        name: event.title,
+        startDate: startDateOf(performance),
+        url: absoluteUrl(`/events/${event.id}?date=${performance.date}`),
+        location
+      }))
+      : undefined
+  });
+}
+
+// Closest schema.org type for each Venue.type we store
+const VENUE_SCHEMA_TYPES: Record<string, string> = {
+  opera_house: 'PerformingArtsTheater',
+  theater: 'PerformingArtsTheater',
+  concert_hall: 'MusicVenue',
+  jazz_club: 'MusicVenue',
+  museum: 'Museum',
+  cinema: 'MovieTheater'
+};
+
+export function venueJsonLd(
+  venue: Venue,
+  summary: ReviewSummary,
+  upcomingEvents: EventWithDetails[] = []
+): JsonLdObject {
+  return withoutEmpty({
+    '@context': 'https://schema.org',
+    ...placeJsonLd(venue),
+    '@type': VENUE_SCHEMA_TYPES[venue.type || ''] || 'Place',
+    url: absoluteUrl(`/venues/${venue.slug}`),
+    sameAs: venue.website,
+    telephone: venue.phone,
+    maximumAttendeeCapacity: venue.capacity,
+    aggregateRating: summary.avgRating !== null
+      ? {
+        '@type': 'AggregateRating',
+        ratingValue: summary.avgRating,
+        ratingCount: summary.ratedReviews,
+        reviewCount: summary.totalReviews,
+        bestRating: 5,
+        worstRating: 1
+      }
+      : undefined,
+    event: upcomingEvents.length > 0
+      // The venue is the enclosing object, so events don't repeat it
+      ? upcomingEvents.map(event => eventFields(event))
+      : undefined
+  });
+}
@@ -1,38 +1,33 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import type { FacetCount, QuizFilters, QuizResponses, QuizState } from '../types';
+import {
+  QUIZ_STEPS,
+  getQuizStep,
+  getQuizStepHref,
+  getQuizStepNumber,
+  isQuizAnswered
+} from '../quiz/steps';
+import { trackEvent } from '../utils/analytics';
+import { normalizeMonth } from '../utils/dates';
 
-interface QuizState {
-  // Core filter state
-  filters: {
-    location: string | null;
-    category: string | null; // renamed from 'type' to match backend
-    month: number | null; // 1-12 for backend compatibility
-  };
+interface QuizStore extends QuizState {
+  // Facet counts per step id, to avoid re-fetching
+  cachedData: Record<string, FacetCount[]>;
   
-  // Step management
-  currentStep: number; // 1, 2, or 3
-  isComplete: boolean;
+  // Record the answer for a step (by facet id) and auto-advance
+  answerStep: (stepId: string, facetId: string) => void;
   
-  // Cache for loaded data to avoid re-fetching
-  cachedData: {
-    locations: Array<{ id: string; name: string; eventCount: number }>;
-    eventTypes: Array<{ id: string; name: string; eventCount: number }>;
-    months: Array<{ id: string; name: string; eventCount: number }>;
-  };
-  
-  // Actions for auto-advancing
-  setLocation: (locationId: string) => void;
-  setCategory: (categoryId: string) => void;
-  setMonth: (monthIndex: number) => void;
+  // Taste quiz answers
+  setResponse: <K extends keyof QuizResponses>(key: K, value: QuizResponses[K]) => void;
+  setResponses: (responses: QuizResponses) => void;
   
   // Step navigation
   goToStep: (step: number) => void;
   reset: () => void;
   
   // Cache management
-  setCachedLocations: (locations: Array<{ id: string; name: string; eventCount: number }>) => void;
-  setCachedEventTypes: (eventTypes: Array<{ id: string; name: string; eventCount: number }>) => void;
-  setCachedMonths: (months: Array<{ id: string; name: string; eventCount: number }>) => void;
+  setCachedFacets: (stepId: string, facets: FacetCount[]) => void;
   
   // Validation helpers
   canAccessStep: (step: number) => boolean;
@@ -44,7 +39,10 @@ interface QuizState {
   getURLParams: () => URLSearchParams;
 }
 
-const initialState = {
+// Bump when the persisted shape changes, and teach migrate() the old one
+const QUIZ_STORE_VERSION = 3;
+
+const initialState: QuizState & Pick<QuizStore, 'cachedData'> = {
   filters: {
     location: null,
     category: null,
@@ -52,74 +50,76 @@ const initialState = {
   },
   currentStep: 1,
   isComplete: false,
-  cachedData: {
-    locations: [],
-    eventTypes: [],
-    months: []
-  }
+  responses: {},
+  cachedData: {}
 };
 
-export const useQuizStore = create<QuizState>()(
+/**
+ * Drop cached facets for every step after `stepNumber`; their counts are
+ * narrowed by the earlier answers, so they go stale when one changes
+ */
+function clearCachesAfter(cachedData: Record<string, FacetCount[]>, stepNumber: number) {
+  return Object.fromEntries(
+    Object.entries(cachedData).filter(([stepId]) => {
+      const step = getQuizStep(stepId);
+      return !step || getQuizStepNumber(step) <= stepNumber;
+    })
+  );
+}
+
+export const useQuizStore = create<QuizStore>()(
   persist(
     (set, get) => ({
       ...initialState,
       
-      setLocation: (locationId: string) => {
-        console.log('QuizStore: Setting location:', locationId);
-        set(state => ({
-          filters: { ...state.filters, location: locationId },
-          currentStep: 2 // Auto-advance to step 2
-        }));
+      answerStep: (stepId: string, facetId: string) => {
+        const step = getQuizStep(stepId);
+        if (!step) {
+          console.warn(`QuizStore: Unknown quiz step ${stepId}`);
+          return;
+        }
         
-        // Track analytics
-        if (typeof window !== 'undefined' && (window as { analytics?: { track: (event: string, data: Record<string, unknown>) => void } }).analytics) {
-          (window as { analytics: { track: (event: string, data: Record<string, unknown>) => void } }).analytics.track('quiz_step_completed', {
-            step: 1,
-            stepName: 'location',
-            selection: locationId,
-            nextStep: 2
+        const value = step.toValue ? step.toValue(facetId) : facetId;
+        const stepNumber = getQuizStepNumber(step);
+        console.log(`QuizStore: Setting ${step.filterKey}:`, value);
+        
+        set(state => {
+          const filters: QuizFilters = { ...state.filters, [step.filterKey]: value };
+          return {
+            filters,
+            currentStep: Math.min(stepNumber + 1, QUIZ_STEPS.length + 1), // Auto-advance
+            isComplete: isQuizAnswered(filters),
+            cachedData: state.filters[step.filterKey] === value
+              ? state.cachedData
+              : clearCachesAfter(state.cachedData, stepNumber)
+          };
+        });
+        
+        const { filters, isComplete } = get();
+        if (isComplete && stepNumber === QUIZ_STEPS.length) {
+          trackEvent('quiz_completed', {
+            step: stepNumber,
+            stepName: step.filterKey,
+            selection: value,
+            ...filters
+          });
+        } else {
+          trackEvent('quiz_step_completed', {
+            step: stepNumber,
+            stepName: step.filterKey,
+            selection: value,
+            nextStep: stepNumber + 1
           });
         }
       },
       
-      setCategory: (categoryId: string) => {
-        console.log('QuizStore: Setting category:', categoryId);
-        set(state => ({
-          filters: { ...state.filters, category: categoryId },
-          currentStep: 3 // Auto-advance to step 3
-        }));
-        
-        // Track analytics
-        if (typeof window !== 'undefined' && (window as { analytics?: { track: (event: string, data: Record<string, unknown>) => void } }).analytics) {
-          (window as { analytics: { track: (event: string, data: Record<string, unknown>) => void } }).analytics.track('quiz_step_completed', {
-            step: 2,
-            stepName: 'category',
-            selection: categoryId,
-            nextStep: 3
-          });
-        }
+      setResponse: (key, value) => {
+        console.log(`QuizStore: Setting taste response ${key}:`, value);
+        set(state => ({ responses: { ...state.responses, [key]: value } }));
       },
       
-      setMonth: (monthIndex: number) => {
-        console.log('QuizStore: Setting month:', monthIndex);
-        set(state => ({
-          filters: { ...state.filters, month: monthIndex },
-          isComplete: true // Quiz complete, ready for results
-        }));
-        
-        // Track analytics
-        if (typeof window !== 'undefined' && (window as { analytics?: { track: (event: string, data: Record<string, unknown>) => void } }).analytics) {
-          (window as { analytics: { track: (event: string, data: Record<string, unknown>) => void } }).analytics.track('quiz_completed', {
-            step: 3,
-            stepName: 'month',
-            selection: monthIndex,
-            finalFilters: {
-              location: get().filters.location,
-              category: get().filters.category,
-              month: monthIndex
-            }
-          });
-        }
+      setResponses: (responses) => {
+        set({ responses });
       },
       
       goToStep: (step: number) => {
@@ -128,7 +128,7 @@ export const useQuizStore = create<QuizState>()(
           console.log('QuizStore: Navigating to step:', step);
           set({ 
             currentStep: step,
-            isComplete: step === 4 || (step === 3 && get().filters.month !== null)
+            isComplete: isQuizAnswered(get().filters)
           });
         } else {
           console.warn(`QuizStore: Cannot access step ${step}, prerequisites not met`);
@@ -137,60 +137,33 @@ export const useQuizStore = create<QuizState>()(
       
       reset: () => {
         console.log('QuizStore: Resetting quiz state');
+        const previous = get();
         set(initialState);
         
-        // Track analytics
-        if (typeof window !== 'undefined' && (window as { analytics?: { track: (event: string, data: Record<string, unknown>) => void } }).analytics) {
-          (window as { analytics: { track: (event: string, data: Record<string, unknown>) => void } }).analytics.track('quiz_reset', {
-            previousStep: get().currentStep,
-            hadCompletedSteps: Object.values(get().filters).some(filter => filter !== null)
-          });
-        }
-      },
-      
-      setCachedLocations: (locations) => {
-        console.log('QuizStore: Caching locations:', locations.length);
-        set(state => ({
-          cachedData: { ...state.cachedData, locations }
-        }));
-      },
-      
-      setCachedEventTypes: (eventTypes) => {
-        console.log('QuizStore: Caching event types:', eventTypes.length);
-        set(state => ({
-          cachedData: { ...state.cachedData, eventTypes }
-        }));
+        trackEvent('quiz_reset', {
+          previousStep: previous.currentStep,
+          hadCompletedSteps: Object.values(previous.filters).some(filter => filter !== null)
+        });
       },
       
-      setCachedMonths: (months) => {
-        console.log('QuizStore: Caching months:', months.length);
+      setCachedFacets: (stepId, facets) => {
+        console.log(`QuizStore: Caching ${stepId} facets:`, facets.length);
         set(state => ({
-          cachedData: { ...state.cachedData, months }
+          cachedData: { ...state.cachedData, [stepId]: facets }
         }));
       },
       
+      // Steps 1..n need every earlier step answered; n + 1 is the results page
       canAccessStep: (step: number) => {
+        if (step < 1 || step > QUIZ_STEPS.length + 1) return false;
         const { filters } = get();
-        switch (step) {
-          case 1: 
-            return true; // Always can access step 1
-          case 2: 
-            return !!filters.location;
-          case 3: 
-            return !!filters.location && !!filters.category;
-          case 4: // Results
-            return !!filters.location && !!filters.category && !!filters.month;
-          default: 
-            return false;
-        }
+        return QUIZ_STEPS.slice(0, step - 1).every(earlier => filters[earlier.filterKey] !== null);
       },
       
       getNextStep: () => {
         const { filters } = get();
-        if (!filters.location) return 1;
-        if (!filters.category) return 2;
-        if (!filters.month) return 3;
-        return null; // Complete
+        const index = QUIZ_STEPS.findIndex(step => filters[step.filterKey] === null);
+        return index === -1 ? null : index + 1; // null when complete
       },
       
       getIncompleteStep: () => {
@@ -199,47 +172,106 @@ export const useQuizStore = create<QuizState>()(
       },
       
       syncFromURL: (searchParams: URLSearchParams) => {
-        const location = searchParams.get('location');
-        const category = searchParams.get('category') || searchParams.get('type');
-        const monthParam = searchParams.get('month');
-        const month = monthParam ? parseInt(monthParam, 10) : null;
+        const fromURL = QUIZ_STEPS.reduce<QuizFilters>((answers, step) => {
+          const param = [step.filterKey, ...(step.paramAliases || [])]
+            .map(name => searchParams.get(name))
+            .find(Boolean);
+          const value = param ? (step.toValue ? step.toValue(param) : param) : null;
+          return { ...answers, [step.filterKey]: value };
+        }, initialState.filters);
         
-        console.log('QuizStore: Syncing from URL:', { location, category, month });
+        console.log('QuizStore: Syncing from URL:', fromURL);
         
-        set(state => ({
-          filters: {
-            location: location || state.filters.location,
-            category: category || state.filters.category,
-            month: month || state.filters.month
-          },
-          isComplete: !!(location && category && month),
-          currentStep: !location ? 1 : !category ? 2 : !month ? 3 : 4
-        }));
+        set(state => {
+          const filters = QUIZ_STEPS.reduce<QuizFilters>((answers, step) => ({
+            ...answers,
+            [step.filterKey]: fromURL[step.filterKey] ?? state.filters[step.filterKey]
+          }), state.filters);
+          const firstChanged = QUIZ_STEPS.findIndex(
+            step => filters[step.filterKey] !== state.filters[step.filterKey]
+          );
+          const nextStep = QUIZ_STEPS.findIndex(step => fromURL[step.filterKey] === null);
+
+          return {
+            filters,
+            // Answers the URL leaves out are kept from the store
+            isComplete: isQuizAnswered(filters),
+            currentStep: nextStep === -1 ? QUIZ_STEPS.length + 1 : nextStep + 1,
+            cachedData: firstChanged === -1
+              ? state.cachedData
+              : clearCachesAfter(state.cachedData, firstChanged + 1)
+          };
+        });
       },
       
       getURLParams: () => {
         const { filters } = get();
         const params = new URLSearchParams();
         
-        if (filters.location) params.set('location', filters.location);
-        if (filters.category) params.set('category', filters.category);
-        if (filters.month) params.set('month', filters.month.toString());
+        QUIZ_STEPS.forEach(step => {
+          const value = filters[step.filterKey];
+          if (value !== null) params.set(step.filterKey, String(value));
+        });
         
         return params;
       }
     }),
     {
       name: 'quiz-store', // Persist key
-      partialize: (state) => ({
+      version: QUIZ_STORE_VERSION,
+      migrate: (persistedState) => migrateQuizState(persistedState),
+      partialize: (state): QuizState => ({
         // Only persist filters and current step, not cached data
         filters: state.filters,
         currentStep: state.currentStep,
-        isComplete: state.isComplete
+        isComplete: state.isComplete,
+        responses: state.responses
       })
     }
   )
 );
 
+
+function toId(value: unknown): string | null {
+  return typeof value === 'string' && value ? value : null;
+}
+
+/**
+ * Bring any earlier persisted quiz state up to the current shape
+ *
+ * Version 0 is the unversioned `{ filters, currentStep, isComplete }` layout.
+ * The flat `{ location, type, month, step }` naming of the old lib/zustand.ts
+ * store is accepted too, and anything unreadable falls back to a fresh quiz.
+ * Version 1 had no taste quiz, so it starts with empty responses. Up to
+ * version 2 the month was a bare 1-12 number; it becomes that month's next
+ * occurrence.
+ */
+function migrateQuizState(persistedState: unknown): QuizState {
+  const stored = (persistedState && typeof persistedState === 'object'
+    ? persistedState
+    : {}) as Record<string, unknown>;
+  const legacyFilters = (stored.filters && typeof stored.filters === 'object'
+    ? stored.filters
+    : stored) as Record<string, unknown>;
+
+  const filters: QuizFilters = {
+    location: toId(legacyFilters.location),
+    category: toId(legacyFilters.category ?? legacyFilters.type),
+    month: normalizeMonth(legacyFilters.month)
+  };
+  const storedStep = Number(stored.currentStep ?? stored.step);
+
+  return {
+    filters,
+    // Any step of the config, or the results page after the last one
+    currentStep: storedStep >= 1 && storedStep <= QUIZ_STEPS.length + 1 ? storedStep : 1,
+    isComplete: isQuizAnswered(filters),
+    responses: (stored.responses && typeof stored.responses === 'object'
+      ? stored.responses
+      : {}) as QuizResponses
+  };
+}
+
 /**
  * Hook for route guards - ensures user can't access incomplete steps
  */
@@ -257,7 +289,7 @@ export function useQuizRouteGuard() {
     const redirectStep = getIncompleteStep();
     return { 
       canAccess: false, 
-      redirectTo: `/quiz/step${redirectStep}` 
+      redirectTo: getQuizStepHref(redirectStep) 
     };
   };
   
@@ -268,20 +300,15 @@ export function useQuizRouteGuard() {
  * Hook for building results URL with all filters
  */
 export function useQuizResultsURL() {
-  const { filters, isComplete } = useQuizStore();
+  const { isComplete, getURLParams } = useQuizStore();
   
   const getResultsURL = () => {
     if (!isComplete) {
       console.warn('Quiz not complete, cannot build results URL');
-      return '/quiz/step1';
+      return getQuizStepHref(1);
     }
     
-    const params = new URLSearchParams();
-    if (filters.location) params.set('location', filters.location);
-    if (filters.category) params.set('category', filters.category);
-    if (filters.month) params.set('month', filters.month.toString());
-    
-    return `/results?${params.toString()}`;
+    return `/results?${getURLParams().toString()}`;
   };
   
   return { getResultsURL, isComplete };
@@ -298,13 +325,13 @@ export function useQuizDebug() {
       logState: () => console.log('Quiz State:', state),
       logFilters: () => console.log('Quiz Filters:', state.filters),
       logValidation: () => {
-        const canAccess1 = state.canAccessStep(1);
-        const canAccess2 = state.canAccessStep(2);
-        const canAccess3 = state.canAccessStep(3);
+        const canAccess = Object.fromEntries(
+          QUIZ_STEPS.map((step, index) => [step.id, state.canAccessStep(index + 1)])
+        );
         const nextStep = state.getNextStep();
         
         console.log('Quiz Validation:', {
-          canAccess: { step1: canAccess1, step2: canAccess2, step3: canAccess3 },
+          canAccess,
           nextStep,
           isComplete: state.isComplete,
           currentStep: state.currentStep
@@ -318,4 +345,21 @@ export function useQuizDebug() {
     logFilters: () => {},
     logValidation: () => {}
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Hook for step progress display (percentage and whether the step is answered)
+ */
+export function useQuizProgress() {
+  const { filters, currentStep, isComplete } = useQuizStore();
+
+  const step = QUIZ_STEPS[currentStep - 1];
+  const canProceed = step ? filters[step.filterKey] !== null : isComplete;
+
+  return {
+    step: currentStep,
+    progress: (currentStep / (QUIZ_STEPS.length + 1)) * 100,
+    canProceed,
+    isComplete
+  };
+}
@@ -81,15 +81,45 @@ export interface Event {
   venue_id: string
   type_id: string
   location_id: string
-  date: string
+  date: string // first performance when the event is a run
   time?: string
+  end_date?: string // last performance of a run, unset for a single date
+  performances?: Performance[] // dated performances of a run, see lib/data/performances.ts
+  recurrence?: string // RRULE the performances follow, instead of listing them
   price?: number
   description?: string
   ticket_url?: string
   source: string
+  merged_into?: string | null // canonical event, once merged as a cross-source duplicate
+  ticket_links?: TicketLink[] // on a canonical event: every merged source's link
+  distinct_from?: string[] // events an admin confirmed are not duplicates of this one
+  merge_fills?: MergeFill[] // on a canonical event: what each merge filled in, undone by a split
   created_at: string
 }
 
+// One dated performance of a production
+export interface Performance {
+  date: string // YYYY-MM-DD
+  time?: string // HH:MM
+}
+
+// Fields a merge may fill in on the canonical event from its duplicates
+export type MergeFilledField = 'ticket_url' | 'description' | 'time' | 'price'
+
+// What one merge changed on the canonical event, so splitting can restore it
+export interface MergeFill {
+  event_ids: string[] // the duplicates that merge brought in
+  fields: MergeFilledField[] // the fields it changed
+  previous: Partial<Pick<Event, MergeFilledField>> // their values before; left out when empty
+}
+
+// Ticket link kept when duplicates from several sources are merged
+export interface TicketLink {
+  url: string
+  source: string
+  event_id: string // the event the link came from
+}
+
 export interface User {
   id: string
   email?: string
@@ -117,11 +147,19 @@ export interface QuizResponses {
   discovery_mode?: 'popular' | 'hidden_gems' | 'mixed'
 }
 
-export interface QuizState {
+// Quiz answers (location → category → month), null until chosen
+export interface QuizFilters {
   location: string | null
-  month: number | null
-  type: string | null
-  step: 1 | 2 | 3 | 4
+  category: string | null
+  month: string | null // YYYY-MM
+}
+
+// Persisted part of the quiz store (see lib/stores/quizStore.ts)
+export interface QuizState {
+  filters: QuizFilters
+  currentStep: number // 1-3, 4 = results
+  isComplete: boolean
+  responses: QuizResponses // optional taste quiz, see lib/quiz/taste.ts
 }
 
 // API response types
@@ -144,18 +182,30 @@ export interface EventTypeWithCount extends EventType {
   event_count: number
 }
 
-// Filter types for event listing
+// Quiz facet with the number of events behind it (word-cloud sizing)
+export interface FacetCount {
+  id: string
+  name: string
+  eventCount: number
+}
+
+// Event listing filters; each facet matches any of its values (see lib/data/eventFilters.ts)
 export interface EventFilters {
-  locationId?: string
-  month?: number
-  typeId?: string
+  locationIds?: string[]
+  typeIds?: string[]
+  months?: string[] // YYYY-MM
+  priceBands?: string[] // PRICE_BANDS ids
   priceMin?: number
   priceMax?: number
+  query?: string // full-text search
   radius?: number // in km
   userLat?: number
   userLng?: number
+  sort?: EventListingSort // unset: relevance while searching, otherwise soonest first
 }
 
+export type EventListingSort = 'relevance' | 'soonest' | 'price_asc' | 'price_desc' | 'nearest' | 'rating' | 'hidden_gems'
+
 // Form validation types (Zod schemas)
 export interface ReviewFormData {
   would_attend_again: boolean
@@ -169,7 +219,7 @@ export interface UserSignupData {
 
 export interface QuizFormData {
   location: string
-  month: number
+  month: string // YYYY-MM
   type: string
 }
 
@@ -0,0 +1,25 @@
+/**
+ * Affiliate tagging for outbound ticket links
+ */
+
+const AFFILIATE_PARAM = 'ref';
+
+/**
+ * Append our affiliate tag to a ticket URL
+ *
+ * Uses NEXT_PUBLIC_AFFILIATE_TAG; without it (or for unparseable URLs) the
+ * link is returned unchanged. An existing tag on the URL is left alone.
+ */
+export function withAffiliateTag(url: string, tag = process.env.NEXT_PUBLIC_AFFILIATE_TAG): string {
+  if (!tag) return url;
+
+  try {
+    const parsed = new URL(url);
+    if (!parsed.searchParams.has(AFFILIATE_PARAM)) {
+      parsed.searchParams.set(AFFILIATE_PARAM, tag);
+    }
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Month and week grids for the calendar views
+ *
+ * Days are calendar dates (YYYY-MM-DD) and go through date-fns like every
+ * other programme date (see dates.ts), so nothing shifts with the viewer's
+ * time zone. Weeks start on Monday, as in Austria.
+ */
+
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isValid,
+  parseISO,
+  startOfMonth,
+  startOfWeek
+} from 'date-fns';
+import type { Performance } from '../types';
+
+export type CalendarSpan = 'month' | 'week';
+
+export interface CalendarState {
+  span: CalendarSpan;
+  anchor?: string; // a day in the month or week shown; unset follows the filters
+  selectedDay?: string; // whose events are listed below the grid
+}
+
+export interface CalendarEntry<T> {
+  item: T;
+  performance: Performance;
+}
+
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const;
+
+function isDay(value: string | null): value is string {
+  return !!value && /^\d{4}-\d{2}-\d{2}$/.test(value) && isValid(parseISO(value));
+}
+
+/**
+ * Every day of the grid: whole weeks around the anchor's month, or its week
+ */
+export function calendarDays(anchor: string, span: CalendarSpan): string[] {
+  const day = parseISO(anchor);
+  const first = startOfWeek(span === 'month' ? startOfMonth(day) : day, WEEK_OPTIONS);
+  const last = endOfWeek(span === 'month' ? endOfMonth(day) : day, WEEK_OPTIONS);
+  const days: string[] = [];
+  for (let current = first; current <= last; current = addDays(current, 1)) {
+    days.push(format(current, 'yyyy-MM-dd'));
+  }
+  return days;
+}
+
+/**
+ * The anchor one month or week earlier (-1) or later (1)
+ */
+export function shiftCalendar(anchor: string, span: CalendarSpan, step: number): string {
+  const day = parseISO(anchor);
+  return format(span === 'month' ? addMonths(day, step) : addWeeks(day, step), 'yyyy-MM-dd');
+}
+
+/**
+ * Each day's performances, in time order; days outside `days` are left out
+ */
+export function entriesByDay<T>(
+  items: T[],
+  performancesOf: (item: T) => Performance[],
+  days: string[]
+): Map<string, CalendarEntry<T>[]> {
+  const byDay = new Map<string, CalendarEntry<T>[]>(days.map(day => [day, []]));
+  items.forEach(item => performancesOf(item).forEach(performance => {
+    byDay.get(performance.date)?.push({ item, performance });
+  }));
+  byDay.forEach(entries => entries.sort((a, b) => (a.performance.time || '').localeCompare(b.performance.time || '')));
+  return byDay;
+}
+
+/**
+ * Calendar view state from `span`, `date` (the anchor) and `day` (selected)
+ */
+export function calendarStateFromParams(params: Pick<URLSearchParams, 'get'>): CalendarState {
+  const anchor = params.get('date');
+  const selectedDay = params.get('day');
+  return {
+    span: params.get('span') === 'week' ? 'week' : 'month',
+    anchor: isDay(anchor) ? anchor : undefined,
+    selectedDay: isDay(selectedDay) ? selectedDay : undefined
+  };
+}
+
+/**
+ * Write `state` into `params`, leaving out what is the default
+ */
+export function setCalendarParams(params: URLSearchParams, state: CalendarState): URLSearchParams {
+  ['span', 'date', 'day'].forEach(name => params.delete(name));
+  if (state.span === 'week') params.set('span', 'week');
+  if (state.anchor) params.set('date', state.anchor);
+  if (state.selectedDay) params.set('day', state.selectedDay);
+  return params;
+}
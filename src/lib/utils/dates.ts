@@ -0,0 +1,221 @@
+/**
+ * Dates and times for a Vienna events platform
+ *
+ * Two kinds of value pass through the app:
+ *  - calendar dates and wall-clock times (`Event.date`, `Event.time`): what
+ *    the venue prints on its programme, in the venue's time zone. date-fns
+ *    handles these; they never go through an instant, so they can't shift.
+ *  - instants (timestamps, feed values with "Z"): stored and exchanged in
+ *    UTC and converted to the venue's zone with Intl at the edges.
+ *
+ * "Today" and month resolution are always Vienna's, not the server's.
+ */
+
+import { addMonths, format, lastDayOfMonth, parseISO } from 'date-fns';
+import { deAT, enUS } from 'date-fns/locale';
+
+export const VIENNA_TIME_ZONE = 'Europe/Vienna';
+
+export type DateLocale = 'de-AT' | 'en';
+
+export const DEFAULT_DATE_LOCALE: DateLocale = 'en';
+
+export type DateStyle = 'full' | 'long' | 'medium' | 'short';
+
+interface LocaleFormats {
+  locale: Locale;
+  dates: Record<DateStyle, string>;
+  dayMonth: string; // range ends without the year
+  months: Record<'long' | 'short', string>;
+  time: string;
+}
+
+const FORMATS: Record<DateLocale, LocaleFormats> = {
+  en: {
+    locale: enUS,
+    dates: { full: 'EEEE, MMMM d, yyyy', long: 'MMMM d, yyyy', medium: 'EEE, MMM d, yyyy', short: 'EEE, MMM d' },
+    dayMonth: 'MMM d',
+    months: { long: 'MMMM yyyy', short: 'MMM yyyy' },
+    time: 'HH:mm'
+  },
+  'de-AT': {
+    locale: deAT,
+    dates: { full: 'EEEE, d. MMMM yyyy', long: 'd. MMMM yyyy', medium: 'EEE, d. MMM yyyy', short: 'EEE, d. MMM' },
+    dayMonth: 'd. MMM',
+    months: { long: 'MMMM yyyy', short: 'MMM yyyy' },
+    time: 'HH:mm'
+  }
+};
+
+/**
+ * Our locale for an Accept-Language header or navigator.language list:
+ * the first German or English tag wins, English otherwise
+ */
+export function pickDateLocale(languages?: string | readonly string[] | null): DateLocale {
+  const tags = typeof languages === 'string'
+    ? languages.split(',').map(tag => tag.split(';')[0].trim())
+    : languages || [];
+  const match = tags.map(tag => tag.toLowerCase()).find(tag => tag.startsWith('de') || tag.startsWith('en'));
+  return match?.startsWith('de') ? 'de-AT' : DEFAULT_DATE_LOCALE;
+}
+
+const partFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function zonedParts(instant: Date, timeZone: string) {
+  let formatter = partFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-CA', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hourCycle: 'h23'
+    });
+    partFormatters.set(timeZone, formatter);
+  }
+
+  const parts = Object.fromEntries(formatter.formatToParts(instant).map(part => [part.type, part.value]));
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    time: `${parts.hour}:${parts.minute}`,
+    second: Number(parts.second)
+  };
+}
+
+/**
+ * Calendar date and wall-clock time of an instant in `timeZone`
+ */
+export function toZonedDateTime(instant: Date | string, timeZone = VIENNA_TIME_ZONE): { date: string; time: string } {
+  const { date, time } = zonedParts(typeof instant === 'string' ? new Date(instant) : instant, timeZone);
+  return { date, time };
+}
+
+// Minutes `timeZone` is ahead of UTC at `instant`
+function offsetMinutes(instant: Date, timeZone: string) {
+  const { date, time, second } = zonedParts(instant, timeZone);
+  const wall = Date.parse(`${date}T${time}:00Z`) + second * 1000;
+  return Math.round((wall - Math.floor(instant.getTime() / 1000) * 1000) / 60000);
+}
+
+/**
+ * The instant a wall-clock date and time in `timeZone` happens at
+ *
+ * Times skipped by the spring DST change resolve forward; times repeated in
+ * autumn resolve to the second (standard time) occurrence.
+ */
+export function zonedTimeToUtc(date: string, time = '00:00', timeZone = VIENNA_TIME_ZONE): Date {
+  const wall = Date.parse(`${date}T${time}:00Z`);
+  const guess = wall - offsetMinutes(new Date(wall), timeZone) * 60000;
+  // A second pass settles dates whose offset differs from the naive guess
+  return new Date(wall - offsetMinutes(new Date(guess), timeZone) * 60000);
+}
+
+/**
+ * ISO 8601 with the zone's offset, e.g. "2027-03-05T19:30:00+01:00"
+ * (schema.org and calendar exports want the local time, not UTC)
+ */
+export function toZonedIsoString(date: string, time: string, timeZone = VIENNA_TIME_ZONE): string {
+  const offset = offsetMinutes(zonedTimeToUtc(date, time, timeZone), timeZone);
+  const sign = offset < 0 ? '-' : '+';
+  const hours = String(Math.floor(Math.abs(offset) / 60)).padStart(2, '0');
+  const minutes = String(Math.abs(offset) % 60).padStart(2, '0');
+  return `${date}T${time}:00${sign}${hours}:${minutes}`;
+}
+
+/**
+ * Today's calendar date (YYYY-MM-DD) in `timeZone`
+ */
+export function todayIn(timeZone = VIENNA_TIME_ZONE, now: Date = new Date()): string {
+  return zonedParts(now, timeZone).date;
+}
+
+/**
+ * "2027-03": a month with its year, the form month filters travel in
+ */
+export function toMonthKey(year: number, month: number): string {
+  return `${year}-${String(month).padStart(2, '0')}`;
+}
+
+export function parseMonthKey(key: string): { year: number; month: number } | null {
+  const match = /^(\d{4})-(\d{2})$/.exec(key);
+  const month = match ? Number(match[2]) : 0;
+  return match && month >= 1 && month <= 12 ? { year: Number(match[1]), month } : null;
+}
+
+/**
+ * A month value from a URL, store or request as a month key
+ *
+ * "2027-03" passes through. A bare month number (3 or "3", as older URLs
+ * and stored quizzes have it) means its next upcoming occurrence: in March
+ * it is this March, from April on next year's.
+ */
+export function normalizeMonth(value: unknown, today: string = todayIn()): string | null {
+  if (typeof value === 'string' && parseMonthKey(value)) return value;
+
+  const month = typeof value === 'string' && /^\d{1,2}$/.test(value) ? Number(value) : value;
+  if (typeof month !== 'number' || !Number.isInteger(month) || month < 1 || month > 12) return null;
+
+  const [currentYear, currentMonth] = today.split('-').map(Number);
+  return toMonthKey(month >= currentMonth ? currentYear : currentYear + 1, month);
+}
+
+/**
+ * Dates a month key covers, from today onwards when it is the current month
+ */
+export function monthRange(key: string, today: string = todayIn()): { from: string; to: string } {
+  const first = `${key}-01`;
+  const to = format(lastDayOfMonth(parseISO(first)), 'yyyy-MM-dd');
+  return { from: today > first && today <= to ? today : first, to };
+}
+
+/**
+ * The month picker's window: `count` month keys from the current month on
+ */
+export function rollingMonths(today: string = todayIn(), count = 12): string[] {
+  const current = parseISO(`${today.slice(0, 7)}-01`);
+  return Array.from({ length: count }, (_, index) => format(addMonths(current, index), 'yyyy-MM'));
+}
+
+export function formatDate(date: string, style: DateStyle = 'long', locale: DateLocale = DEFAULT_DATE_LOCALE): string {
+  const formats = FORMATS[locale];
+  return format(parseISO(date), formats.dates[style], { locale: formats.locale });
+}
+
+/**
+ * "Mar 5 – Apr 20", with years only when the range crosses one
+ */
+export function formatDateRange(from: string, to: string, locale: DateLocale = DEFAULT_DATE_LOCALE): string {
+  const formats = FORMATS[locale];
+  if (from.slice(0, 4) !== to.slice(0, 4)) {
+    return `${formatDate(from, 'long', locale)} – ${formatDate(to, 'long', locale)}`;
+  }
+  const pattern = (date: string) => format(parseISO(date), formats.dayMonth, { locale: formats.locale });
+  return `${pattern(from)} – ${pattern(to)}`;
+}
+
+/**
+ * Month key as "March 2027" (long) or "Mar 2027" (short), in the locale
+ */
+export function formatMonth(key: string, style: 'long' | 'short' = 'long', locale: DateLocale = DEFAULT_DATE_LOCALE): string {
+  const formats = FORMATS[locale];
+  return format(parseISO(`${key}-01`), formats.months[style], { locale: formats.locale });
+}
+
+/**
+ * Weekday of a date, "Mon" (short) or "Monday" (long), in the locale
+ */
+export function formatWeekday(date: string, style: 'long' | 'short' = 'short', locale: DateLocale = DEFAULT_DATE_LOCALE): string {
+  const formats = FORMATS[locale];
+  return format(parseISO(date), style === 'short' ? 'EEE' : 'EEEE', { locale: formats.locale });
+}
+
+/**
+ * Wall-clock "HH:MM" in the locale's style
+ */
+export function formatTime(time: string, locale: DateLocale = DEFAULT_DATE_LOCALE): string {
+  const formats = FORMATS[locale];
+  return format(parseISO(`2000-01-01T${time}`), formats.time, { locale: formats.locale });
+}
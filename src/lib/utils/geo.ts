@@ -0,0 +1,48 @@
+/**
+ * Great-circle helpers for venue coordinates
+ */
+
+export interface LatLong {
+  lat: number;
+  long: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Haversine distance in kilometres
+ */
+export function distanceKm(a: LatLong, b: LatLong): number {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLong = toRadians(b.long - a.long);
+  const h = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLong / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Lat/long box around a point that contains every point within `radiusKm`;
+ * a cheap database pre-filter before the exact distance check
+ */
+export function boundingBox(center: LatLong, radiusKm: number) {
+  const latDelta = (radiusKm / EARTH_RADIUS_KM) * (180 / Math.PI);
+  const longDelta = latDelta / Math.max(Math.cos(toRadians(center.lat)), 0.01);
+
+  return {
+    minLat: center.lat - latDelta,
+    maxLat: center.lat + latDelta,
+    minLong: center.long - longDelta,
+    maxLong: center.long + longDelta
+  };
+}
+
+/**
+ * "650 m" under a kilometre, "1.4 km" up to ten, "12 km" beyond
+ */
+export function formatDistance(km: number): string {
+  if (km < 1) return `${Math.max(10, Math.round((km * 1000) / 10) * 10)} m`;
+  return km < 10 ? `${km.toFixed(1)} km` : `${Math.round(km)} km`;
+}
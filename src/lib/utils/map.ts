@@ -0,0 +1,44 @@
+/**
+ * Basemap source and marker clustering for the event map
+ *
+ * The map has to run without network access, so raster tiles are opt-in:
+ * NEXT_PUBLIC_MAP_TILE_URL points at a locally served tile set (for example
+ * "/tiles/{z}/{x}/{y}.png" under public/). Without it the map draws a plain
+ * vector basemap from the districts in `locations`.
+ */
+
+export interface TileSource {
+  url: string;
+  attribution?: string;
+}
+
+export function localTileSource(): TileSource | null {
+  const url = process.env.NEXT_PUBLIC_MAP_TILE_URL;
+  return url ? { url, attribution: process.env.NEXT_PUBLIC_MAP_TILE_ATTRIBUTION } : null;
+}
+
+export interface ScreenPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Greedy clustering in screen space: each item joins the first cluster
+ * whose first member is within `radius` pixels, or starts a new one.
+ * Items keep their order inside a cluster, and clusters the order of their
+ * first member.
+ */
+export function clusterPoints<T>(items: T[], project: (item: T) => ScreenPoint, radius: number): T[][] {
+  const clusters: { anchor: ScreenPoint; members: T[] }[] = [];
+
+  items.forEach(item => {
+    const point = project(item);
+    const cluster = clusters.find(({ anchor }) =>
+      Math.hypot(anchor.x - point.x, anchor.y - point.y) <= radius
+    );
+    if (cluster) cluster.members.push(item);
+    else clusters.push({ anchor: point, members: [item] });
+  });
+
+  return clusters.map(cluster => cluster.members);
+}
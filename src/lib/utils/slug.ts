@@ -0,0 +1,28 @@
+/**
+ * URL slugs and name matching keys
+ */
+
+const GERMAN_LETTERS: Record<string, string> = {
+  ä: 'ae',
+  ö: 'oe',
+  ü: 'ue',
+  ß: 'ss'
+};
+
+/**
+ * "Porgy & Bess" → "porgy-and-bess", "Landstraße" → "landstrasse"
+ *
+ * Also used to compare names from imports, so spelling variants of the
+ * same venue or district land on the same key.
+ */
+export function slugify(name: string): string {
+  return name
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/[äöüß]/g, letter => GERMAN_LETTERS[letter])
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
@@ -2,83 +2,22 @@
 // Based on MASTER_PROMPT.md state management patterns
 
 import { create } from 'zustand'
-import type { QuizState, EventFilters, User } from './types'
+import type { EventFilters, User } from './types'
+import type { EventFacet } from './data/eventFilters'
 
-// Quiz flow state management (location → month → type → results)
-interface QuizStore extends QuizState {
-  setLocation: (locationId: string) => void
-  setMonth: (month: number) => void
-  setType: (typeId: string) => void
-  nextStep: () => void
-  prevStep: () => void
-  reset: () => void
-  isComplete: () => boolean
-}
-
-export const useQuizStore = create<QuizStore>((set, get) => ({
-  location: null,
-  month: null,
-  type: null,
-  step: 1,
-  
-  setLocation: (locationId: string) => {
-    set({ location: locationId })
-    // Auto-advance to month step
-    if (get().step === 1) {
-      set({ step: 2 })
-    }
-  },
-  
-  setMonth: (month: number) => {
-    set({ month })
-    // Auto-advance to type step
-    if (get().step === 2) {
-      set({ step: 3 })
-    }
-  },
-  
-  setType: (typeId: string) => {
-    set({ type: typeId })
-    // Auto-advance to results step
-    if (get().step === 3) {
-      set({ step: 4 })
-    }
-  },
-  
-  nextStep: () => {
-    const currentStep = get().step
-    if (currentStep < 4) {
-      set({ step: (currentStep + 1) as 1 | 2 | 3 | 4 })
-    }
-  },
-  
-  prevStep: () => {
-    const currentStep = get().step
-    if (currentStep > 1) {
-      set({ step: (currentStep - 1) as 1 | 2 | 3 | 4 })
-    }
-  },
-  
-  reset: () => set({ 
-    location: null, 
-    month: null, 
-    type: null, 
-    step: 1 
-  }),
-  
-  isComplete: () => {
-    const state = get()
-    return !!(state.location && state.month && state.type)
-  }
-}))
+// Quiz flow state lives in ./stores/quizStore.ts (persisted, versioned)
 
 // Event filtering state (for event listing page)
+// EventGrid mirrors it into the URL; see lib/data/eventFilters.ts
 interface EventFilterStore {
   filters: EventFilters
-  setLocationFilter: (locationId?: string) => void
-  setMonthFilter: (month?: number) => void
-  setTypeFilter: (typeId?: string) => void
+  setFilters: (filters: EventFilters) => void
+  toggleFilterValue: (facet: EventFacet, value: string) => void
+  setLocationFilter: (locationIds?: string[]) => void
+  setMonthFilter: (months?: string[]) => void
+  setTypeFilter: (typeIds?: string[]) => void
   setPriceFilter: (min?: number, max?: number) => void
+  setSearchQuery: (query?: string) => void
   setRadiusFilter: (radius?: number, userLat?: number, userLng?: number) => void
   clearFilters: () => void
   getActiveFiltersCount: () => number
@@ -86,22 +25,36 @@ interface EventFilterStore {
 
 export const useEventFilterStore = create<EventFilterStore>((set, get) => ({
   filters: {},
-  
-  setLocationFilter: (locationId?: string) => {
+
+  setFilters: (filters: EventFilters) => set({ filters }),
+
+  toggleFilterValue: (facet: EventFacet, value: string) => {
+    set(state => {
+      const current = state.filters[facet] || []
+      const values = current.includes(value)
+        ? current.filter(existing => existing !== value)
+        : [...current, value]
+      return {
+        filters: { ...state.filters, [facet]: values.length > 0 ? values : undefined }
+      }
+    })
+  },
+  
+  setLocationFilter: (locationIds?: string[]) => {
     set(state => ({
-      filters: { ...state.filters, locationId }
+      filters: { ...state.filters, locationIds }
     }))
   },
   
-  setMonthFilter: (month?: number) => {
+  setMonthFilter: (months?: string[]) => {
     set(state => ({
-      filters: { ...state.filters, month }
+      filters: { ...state.filters, months }
     }))
   },
   
-  setTypeFilter: (typeId?: string) => {
+  setTypeFilter: (typeIds?: string[]) => {
     set(state => ({
-      filters: { ...state.filters, typeId }
+      filters: { ...state.filters, typeIds }
     }))
   },
   
@@ -110,6 +63,12 @@ export const useEventFilterStore = create<EventFilterStore>((set, get) => ({
       filters: { ...state.filters, priceMin, priceMax }
     }))
   },
+
+  setSearchQuery: (query?: string) => {
+    set(state => ({
+      filters: { ...state.filters, query: query || undefined }
+    }))
+  },
   
   setRadiusFilter: (radius?: number, userLat?: number, userLng?: number) => {
     set(state => ({
@@ -122,7 +81,7 @@ export const useEventFilterStore = create<EventFilterStore>((set, get) => ({
   getActiveFiltersCount: () => {
     const filters = get().filters
     return Object.values(filters).filter(value => 
-      value !== undefined && value !== null
+      value !== undefined && value !== null && !(Array.isArray(value) && value.length === 0)
     ).length
   }
 }))
@@ -230,23 +189,3 @@ export const useFeatureFlags = () => {
   const { flags } = useFeatureFlagStore()
   return flags
 }
-
-// Quiz flow helpers
-export const useQuizProgress = () => {
-  const { step, location, month, type, isComplete } = useQuizStore()
-  
-  const progress = step / 4 * 100
-  const canProceed = {
-    1: !!location,
-    2: !!month,
-    3: !!type,
-    4: isComplete()
-  }
-  
-  return {
-    step,
-    progress,
-    canProceed: canProceed[step as keyof typeof canProceed],
-    isComplete: isComplete()
-  }
-}
\ No newline at end of file
@@ -0,0 +1,14 @@
+-- Cross-source duplicate merging (src/lib/data/dedup.ts)
+--   merged_into:   canonical event once this row was merged as a duplicate;
+--                  merged rows stay as provenance but drop out of listings
+--   ticket_links:  on the canonical event, every merged source's ticket link
+--                  as [{ "url", "source", "event_id" }]
+--   distinct_from: event ids an admin confirmed are not duplicates
+
+ALTER TABLE events
+  ADD COLUMN merged_into UUID REFERENCES events(id) ON DELETE SET NULL,
+  ADD COLUMN ticket_links JSONB,
+  ADD COLUMN distinct_from UUID[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX events_merged_into_idx ON events (merged_into);
+CREATE INDEX events_unmerged_date_idx ON events (date) WHERE merged_into IS NULL;
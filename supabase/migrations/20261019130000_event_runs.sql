@@ -0,0 +1,13 @@
+-- Runs: one event with many dated performances (src/lib/data/performances.ts)
+--   performances: [{ "date": "YYYY-MM-DD", "time": "HH:MM" }] in date order
+--   recurrence:   RRULE the performances follow, instead of listing them
+--   end_date:     last performance; date stays the first, so a run overlaps
+--                 a range when date <= range end and end_date >= range start
+
+ALTER TABLE events
+  ADD COLUMN end_date DATE,
+  ADD COLUMN performances JSONB,
+  ADD COLUMN recurrence TEXT,
+  ADD CONSTRAINT events_end_date_check CHECK (end_date IS NULL OR end_date >= date);
+
+CREATE INDEX events_end_date_idx ON events (end_date) WHERE end_date IS NOT NULL;
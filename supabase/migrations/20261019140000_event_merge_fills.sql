@@ -0,0 +1,7 @@
+-- Undoable merges (src/lib/data/dedup.ts)
+--   merge_fills: on a canonical event, one entry per merge with the fields it
+--                filled in from the duplicates and their values before, as
+--                [{ "event_ids", "fields", "previous" }]; a split restores them
+
+ALTER TABLE events
+  ADD COLUMN merge_fills JSONB;